@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  formatAuditStats,
+  readAuditLog,
+  summarizeAuditLog,
+  type AuditEntry,
+} from '../audit';
+import { createRulesServer } from '../server';
+
+describe('Audit Log', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'rules-audit-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const entry = (
+    time: string,
+    tool: string,
+    args: Record<string, unknown>,
+    keys: string[],
+    size: number,
+    error?: string
+  ): AuditEntry => ({
+    time,
+    tool,
+    arguments: args,
+    keys,
+    size,
+    ...(error ? { error } : {}),
+  });
+
+  it('should record every tool call', async () => {
+    const rulesDir = join(tempDir, 'rules');
+    const auditLog = join(tempDir, 'audit.jsonl');
+    mkdirSync(join(rulesDir, 'general'), { recursive: true });
+    writeFileSync(join(rulesDir, 'general', 'STYLE.md'), '# Style\n');
+
+    const rulesServer = await createRulesServer({
+      rulesDirs: [rulesDir],
+      auditLog,
+      logging: { level: 'silent' },
+    });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await rulesServer.connect(serverTransport);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+
+    await client.callTool({
+      name: 'get_project_rules',
+      arguments: { rule_type: 'GENERAL-STYLE' },
+    });
+    await expect(
+      client.callTool({
+        name: 'get_project_rules',
+        arguments: { rule_type: 'LINTING' },
+      })
+    ).rejects.toThrow('Unknown rule type: LINTING');
+
+    await client.close();
+    await rulesServer.close();
+
+    expect(await readAuditLog(auditLog)).toEqual([
+      {
+        time: expect.any(String),
+        client: { name: 'test-client', version: '1.0.0' },
+        tool: 'get_project_rules',
+        arguments: { rule_type: 'GENERAL-STYLE' },
+        keys: ['GENERAL-STYLE'],
+        size: '# Style\n'.length,
+      },
+      {
+        time: expect.any(String),
+        client: { name: 'test-client', version: '1.0.0' },
+        tool: 'get_project_rules',
+        arguments: { rule_type: 'LINTING' },
+        keys: [],
+        size: 0,
+        error: 'Unknown rule type: LINTING. Closest rule types: GENERAL-STYLE',
+      },
+    ]);
+  });
+
+  it('should skip lines that are not valid JSON', async () => {
+    const auditLog = join(tempDir, 'audit.jsonl');
+    writeFileSync(
+      auditLog,
+      `${JSON.stringify(entry('2026-01-01T00:00:00.000Z', 'validate_rules', {}, [], 17))}\n{"time":"2026-01-0\n`
+    );
+
+    expect(await readAuditLog(auditLog)).toHaveLength(1);
+  });
+
+  it('should summarize usage, misses and response sizes', () => {
+    const stats = summarizeAuditLog(
+      [
+        entry(
+          '2026-01-01T10:00:00.000Z',
+          'get_project_rules',
+          { rule_type: 'ALL' },
+          ['A', 'B'],
+          300
+        ),
+        entry(
+          '2026-01-01T09:00:00.000Z',
+          'get_project_rules',
+          { rule_type: 'A' },
+          ['A'],
+          100
+        ),
+        entry(
+          '2026-01-02T08:00:00.000Z',
+          'get_project_rules',
+          { rule_type: 'OLD' },
+          [],
+          0,
+          'Unknown rule type: OLD'
+        ),
+        entry(
+          '2026-01-02T09:00:00.000Z',
+          'search_project_rules',
+          { query: 'x' },
+          ['A', 'REMOVED'],
+          40
+        ),
+      ],
+      ['A', 'B', 'C']
+    );
+
+    expect(stats).toEqual({
+      calls: 4,
+      errors: 1,
+      first: '2026-01-01T09:00:00.000Z',
+      last: '2026-01-02T09:00:00.000Z',
+      tools: [
+        {
+          tool: 'get_project_rules',
+          calls: 3,
+          errors: 1,
+          averageSize: 200,
+          maxSize: 300,
+        },
+        {
+          tool: 'search_project_rules',
+          calls: 1,
+          errors: 0,
+          averageSize: 40,
+          maxSize: 40,
+        },
+      ],
+      rules: [
+        { key: 'A', count: 3 },
+        { key: 'B', count: 1 },
+        { key: 'C', count: 0 },
+      ],
+      misses: [{ ruleType: 'OLD', count: 1 }],
+    });
+
+    const text = formatAuditStats(stats, 2);
+    expect(text).toContain('Most used rules:\n  A  3\n  B  1');
+    expect(text).toContain('Least used rules:\n  C  0\n  B  1');
+    expect(text).toContain('Unknown rule types:\n  OLD  1');
+  });
+});
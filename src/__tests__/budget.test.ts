@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { fitToBudget, type BudgetItem } from '../budget';
+
+const item = (
+  key: string,
+  size: number,
+  priority = 0,
+  summary = `${key} summary`
+): BudgetItem => ({
+  key,
+  full: `${key} `.padEnd(size, 'x'),
+  summary,
+  priority,
+});
+
+describe('Response Budget', () => {
+  it('should include every rule when the budget is large enough', () => {
+    const result = fitToBudget([item('A', 100), item('B', 100)], 10000);
+
+    expect(result.included).toEqual(['A', 'B']);
+    expect(result.summarized).toEqual([]);
+    expect(result.omitted).toEqual([]);
+    expect(result.text).toContain('## A');
+    expect(result.text).toContain('\n\n---\n\n## B');
+    expect(result.text).not.toContain('Omitted');
+  });
+
+  it('should fill the budget by priority', () => {
+    const result = fitToBudget(
+      [item('LOW', 300, 1), item('HIGH', 300, 10)],
+      600
+    );
+
+    expect(result.included).toEqual(['HIGH']);
+    expect(result.text.indexOf('## HIGH')).toBe(0);
+  });
+
+  it('should fall back to summaries and then omit rules', () => {
+    const result = fitToBudget(
+      [
+        item('A', 300, 3),
+        item('B', 300, 2),
+        item('C', 300, 1, 'x'.repeat(300)),
+      ],
+      600
+    );
+
+    expect(result.included).toEqual(['A']);
+    expect(result.summarized).toEqual(['B']);
+    expect(result.omitted).toEqual(['C']);
+    expect(result.text).toContain('B summary');
+    expect(result.text).toContain('Summarized to fit the budget: B');
+    expect(result.text).toContain('Omitted to fit the budget: C');
+  });
+
+  it('should keep the response within the budget', () => {
+    const items = Array.from({ length: 20 }, (_, index) =>
+      item(`RULE-${index}`, 200 + index * 10, index % 3)
+    );
+
+    [300, 1000, 2500].forEach((maxChars) => {
+      expect(fitToBudget(items, maxChars).text.length).toBeLessThanOrEqual(
+        maxChars
+      );
+    });
+  });
+
+  it('should say when the budget is too small for the note', () => {
+    const items = [item('GENERAL-OVERVIEW', 200), item('BACKEND-API', 200)];
+
+    const small = fitToBudget(items, 50);
+    expect(small.omitted).toEqual(['GENERAL-OVERVIEW', 'BACKEND-API']);
+    expect(small.text).toBe(
+      '> The budget is too small for 2 rule(s). Request f'
+    );
+    expect(fitToBudget(items, 10).text).toHaveLength(10);
+  });
+});
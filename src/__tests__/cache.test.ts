@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import {
+  isRuleFile,
+  refreshRuleFile,
+  refreshRulesDir,
+  type RuleFileCache,
+} from '../cache';
+
+const __dirname = fileURLToPath(new URL('.', import.meta.url));
+
+describe('Rule File Cache', () => {
+  const filter = { include: ['**/*.md'], exclude: ['drafts/**'] };
+  let cacheRulesDir: string;
+  let cache: RuleFileCache;
+
+  beforeEach(() => {
+    cacheRulesDir = join(__dirname, 'cache-rules');
+    mkdirSync(join(cacheRulesDir, 'general'), { recursive: true });
+    mkdirSync(join(cacheRulesDir, 'drafts'), { recursive: true });
+    cache = new Map();
+  });
+
+  afterEach(() => {
+    if (existsSync(cacheRulesDir)) {
+      rmSync(cacheRulesDir, { recursive: true, force: true });
+    }
+  });
+
+  const write = (file: string, content: string) =>
+    writeFileSync(join(cacheRulesDir, file), content);
+
+  it('should select markdown files outside dot and excluded directories', () => {
+    expect(isRuleFile(join('general', 'README.md'), filter)).toBe(true);
+    expect(isRuleFile(join('general', 'notes.txt'), filter)).toBe(false);
+    expect(isRuleFile(join('.git', 'README.md'), filter)).toBe(false);
+    expect(isRuleFile(join('drafts', 'IDEA.md'), filter)).toBe(false);
+  });
+
+  it('should parse rule files on the first refresh', async () => {
+    write(join('general', 'README.md'), '---\npriority: 2\n---\n# Overview\n');
+    write(join('drafts', 'IDEA.md'), '# Idea\n');
+
+    const result = await refreshRulesDir(cache, cacheRulesDir, filter);
+
+    expect(result.read.map((file) => file.filePath)).toEqual([
+      join(cacheRulesDir, 'general', 'README.md'),
+    ]);
+    expect(result.read[0]).toMatchObject({
+      rulesDir: cacheRulesDir,
+      directories: ['general'],
+      file: 'README.md',
+      metadata: { priority: 2 },
+      body: '# Overview\n',
+    });
+  });
+
+  it('should only reread files that changed', async () => {
+    write(join('general', 'README.md'), '# Overview\n');
+    write(join('general', 'STYLE.md'), '# Style\n');
+    await refreshRulesDir(cache, cacheRulesDir, filter);
+
+    const unchanged = await refreshRulesDir(cache, cacheRulesDir, filter);
+    expect(unchanged).toEqual({ read: [], removed: [] });
+
+    write(join('general', 'STYLE.md'), '# Style\n\nUse tabs.\n');
+    const changed = await refreshRulesDir(cache, cacheRulesDir, filter);
+    expect(changed.read.map((file) => file.file)).toEqual(['STYLE.md']);
+    expect(cache.get(join(cacheRulesDir, 'general', 'STYLE.md'))!.body).toBe(
+      '# Style\n\nUse tabs.\n'
+    );
+  });
+
+  it('should drop deleted files', async () => {
+    write(join('general', 'README.md'), '# Overview\n');
+    write(join('general', 'STYLE.md'), '# Style\n');
+    await refreshRulesDir(cache, cacheRulesDir, filter);
+
+    rmSync(join(cacheRulesDir, 'general', 'STYLE.md'));
+    const single = await refreshRuleFile(
+      cache,
+      cacheRulesDir,
+      join('general', 'STYLE.md')
+    );
+
+    expect(single.removed.map((file) => file.file)).toEqual(['STYLE.md']);
+    expect([...cache.keys()]).toEqual([
+      join(cacheRulesDir, 'general', 'README.md'),
+    ]);
+
+    rmSync(join(cacheRulesDir, 'general'), { recursive: true });
+    const result = await refreshRulesDir(cache, cacheRulesDir, filter);
+    expect(result.removed.map((file) => file.file)).toEqual(['README.md']);
+    expect(cache.size).toBe(0);
+  });
+});
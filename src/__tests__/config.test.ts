@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import {
+  checkToolNames,
+  configFromEnv,
+  DEFAULT_CONFIG,
+  findConfigFile,
+  loadConfigFile,
+  mergeConfig,
+  redactConfig,
+  validateConfig,
+} from '../config';
+
+const __dirname = fileURLToPath(new URL('.', import.meta.url));
+
+describe('Configuration', () => {
+  let projectDir: string;
+
+  beforeEach(() => {
+    projectDir = join(__dirname, 'config-project');
+    mkdirSync(join(projectDir, 'packages', 'app'), { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(projectDir)) {
+      rmSync(projectDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should report every invalid or unknown option', () => {
+    const { config, errors } = validateConfig({
+      rulesDirs: './rules',
+      cacheTtl: 1000,
+      transport: { type: 'ws', port: 70000, secure: true },
+      toolNames: { get_project_rules: 'get rules' },
+      watch: true,
+    });
+
+    expect(config).toEqual({ cacheTtl: 1000, transport: {}, toolNames: {} });
+    expect(errors).toEqual([
+      '"rulesDirs" must be a list of strings',
+      '"transport.type" must be one of stdio, http',
+      '"transport.port" must be an integer from 0 to 65535',
+      'Unknown option "transport.secure"',
+      '"toolNames.get_project_rules" must match /^[A-Za-z0-9_-]{1,64}$/',
+      'Unknown option "watch"',
+    ]);
+  });
+
+  it('should accept and drop a $schema reference', () => {
+    expect(
+      validateConfig({ $schema: './schema.json', keyNaming: 'path' })
+    ).toEqual({ config: { keyNaming: 'path' }, errors: [] });
+  });
+
+  it('should validate prompt bundles', () => {
+    const { config, errors } = validateConfig({
+      prompts: {
+        review: { title: 'Review', rules: ['GENERAL/*', 'BACKEND-API'] },
+        broken: { description: 'No rules' },
+      },
+    });
+
+    expect(config.prompts).toEqual({
+      review: { title: 'Review', rules: ['GENERAL/*', 'BACKEND-API'] },
+    });
+    expect(errors).toEqual(['"prompts.broken" is missing "rules"']);
+  });
+
+  it('should find the config file in a parent directory', () => {
+    const file = join(projectDir, '.mcp-rules.yaml');
+    writeFileSync(file, 'cacheTtl: 100\n');
+
+    expect(findConfigFile(join(projectDir, 'packages', 'app'))).toBe(file);
+  });
+
+  it('should resolve paths relative to the config file', () => {
+    const file = join(projectDir, 'mcp-rules.config.json');
+    writeFileSync(
+      file,
+      JSON.stringify({
+        rulesDirs: ['./rules', '/shared/rules'],
+        variables: { node_version: 20 },
+      })
+    );
+
+    expect(loadConfigFile(file)).toEqual({
+      config: {
+        rulesDirs: [join(projectDir, 'rules'), '/shared/rules'],
+        variables: { node_version: '20' },
+      },
+      errors: [],
+    });
+  });
+
+  it('should report unreadable config files', () => {
+    const file = join(projectDir, 'mcp-rules.config.json');
+    writeFileSync(file, '{ "rulesDirs": [');
+
+    expect(loadConfigFile(file).errors[0]).toMatch(/^Cannot read config: /);
+  });
+
+  it('should apply layers in order of precedence', () => {
+    const fromFile = validateConfig({
+      keyNaming: 'path',
+      transport: { type: 'http', port: 4000 },
+      logging: { level: 'debug' },
+    }).config;
+    const fromEnv = validateConfig(
+      configFromEnv({ MCP_PORT: '5000', MCP_SERVER_NAME: 'team-rules' })
+    ).config;
+    const fromArgs = validateConfig({ transport: { port: 6000 } }).config;
+
+    const config = mergeConfig(fromFile, fromEnv, fromArgs);
+
+    expect(config.keyNaming).toBe('path');
+    expect(config.transport).toEqual({
+      type: 'http',
+      host: '127.0.0.1',
+      port: 6000,
+      sessionTimeout: DEFAULT_CONFIG.transport.sessionTimeout,
+    });
+    expect(config.logging.level).toBe('debug');
+    expect(config.server.name).toBe('team-rules');
+    expect(config.rulesDirs).toEqual(DEFAULT_CONFIG.rulesDirs);
+  });
+
+  it('should reject clashing tool names', () => {
+    const config = mergeConfig({
+      toolNames: { get_rule_sections: 'get_project_rules' },
+    });
+
+    expect(checkToolNames(config)).toEqual([
+      '"toolNames": get_project_rules and get_rule_sections are both named "get_project_rules"',
+    ]);
+  });
+
+  it('should hide the auth token', () => {
+    const config = mergeConfig({ transport: { authToken: 'secret' } });
+
+    expect(redactConfig(config).transport.authToken).toBe('********');
+    expect(config.transport.authToken).toBe('secret');
+  });
+});
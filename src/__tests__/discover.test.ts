@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, rmSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import type { RuleFileCache } from '../cache';
+import { findAgentRuleFiles, refreshAgentRules } from '../discover';
+import { exportRules, GENERATED_NOTICE } from '../export';
+import { toRuleKey } from '../keys';
+
+const __dirname = fileURLToPath(new URL('.', import.meta.url));
+
+describe('Agent Rule Discovery', () => {
+  let repoDir: string;
+
+  beforeEach(() => {
+    repoDir = join(__dirname, 'discover-repo');
+    mkdirSync(join(repoDir, '.cursor', 'rules', 'frontend'), {
+      recursive: true,
+    });
+    mkdirSync(join(repoDir, '.github', 'instructions'), { recursive: true });
+    mkdirSync(join(repoDir, 'docs'), { recursive: true });
+
+    writeFileSync(join(repoDir, 'CLAUDE.md'), '# Claude\n');
+    writeFileSync(join(repoDir, '.cursorrules'), 'Prefer small diffs.\n');
+    writeFileSync(
+      join(repoDir, '.cursor', 'rules', 'frontend', 'react.mdc'),
+      '---\nglobs: src/**/*.tsx\n---\n# React\n'
+    );
+    writeFileSync(
+      join(repoDir, '.github', 'instructions', 'tests.instructions.md'),
+      '---\napplyTo: "**/*.test.ts"\n---\n# Tests\n'
+    );
+    writeFileSync(join(repoDir, 'docs', 'GUIDE.md'), '# Not a rule\n');
+  });
+
+  afterEach(() => {
+    if (existsSync(repoDir)) {
+      rmSync(repoDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should find agent rule files by convention only', async () => {
+    expect(await findAgentRuleFiles(repoDir)).toEqual([
+      { relativePath: 'CLAUDE.md', rulePath: 'claude/README.md' },
+      { relativePath: '.cursorrules', rulePath: 'cursor/README.md' },
+      {
+        relativePath: join('.cursor', 'rules', 'frontend', 'react.mdc'),
+        rulePath: 'cursor/frontend/react.mdc',
+      },
+      {
+        relativePath: join('.github', 'instructions', 'tests.instructions.md'),
+        rulePath: 'copilot/tests.md',
+      },
+    ]);
+  });
+
+  it('should cache discovered files under namespaced keys', async () => {
+    const cache: RuleFileCache = new Map();
+    const result = await refreshAgentRules(cache, repoDir);
+
+    const rules = Object.fromEntries(
+      result.read.map((ruleFile) => [
+        toRuleKey(ruleFile.directories, ruleFile.file),
+        ruleFile,
+      ])
+    );
+    expect(Object.keys(rules).sort()).toEqual([
+      'CLAUDE-OVERVIEW',
+      'COPILOT-TESTS',
+      'CURSOR-OVERVIEW',
+      'CURSOR/FRONTEND-REACT',
+    ]);
+    expect(rules['COPILOT-TESTS']!.metadata.applies_to).toEqual([
+      '**/*.test.ts',
+    ]);
+    expect(rules['CURSOR-OVERVIEW']!.body).toBe('Prefer small diffs.\n');
+
+    unlinkSync(join(repoDir, 'CLAUDE.md'));
+    const changed = await refreshAgentRules(cache, repoDir);
+    expect(changed.read).toEqual([]);
+    expect(changed.removed.map((ruleFile) => ruleFile.filePath)).toEqual([
+      join(repoDir, 'CLAUDE.md'),
+    ]);
+  });
+
+  it('should skip files written by the export command', async () => {
+    const cache: RuleFileCache = new Map();
+    const [agents] = exportRules(
+      [
+        {
+          key: 'CLAUDE-OVERVIEW',
+          description: 'Claude',
+          metadata: {},
+          content: '# Claude\n',
+        },
+      ],
+      'agents'
+    );
+    writeFileSync(join(repoDir, agents!.path), agents!.content);
+
+    const result = await refreshAgentRules(cache, repoDir);
+    expect(result.read.map((ruleFile) => ruleFile.filePath)).not.toContain(
+      join(repoDir, 'AGENTS.md')
+    );
+    expect(cache.has(join(repoDir, 'AGENTS.md'))).toBe(false);
+
+    // A hand-written file replaced by an export is dropped
+    writeFileSync(
+      join(repoDir, 'CLAUDE.md'),
+      `${GENERATED_NOTICE}\n\n# Claude\n`
+    );
+    const changed = await refreshAgentRules(cache, repoDir);
+    expect(changed.read).toEqual([]);
+    expect(changed.removed.map((ruleFile) => ruleFile.filePath)).toEqual([
+      join(repoDir, 'CLAUDE.md'),
+    ]);
+    expect(await refreshAgentRules(cache, repoDir)).toEqual({
+      read: [],
+      removed: [],
+    });
+  });
+});
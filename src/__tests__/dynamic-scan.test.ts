@@ -1,63 +1,20 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import {
-  readFileSync,
-  readdirSync,
-  existsSync,
-  mkdirSync,
-  writeFileSync,
-  rmSync,
-} from 'fs';
+import { existsSync, mkdirSync, writeFileSync, rmSync } from 'fs';
 import { join } from 'path';
 import { fileURLToPath } from 'url';
+import { loadRules } from '../index';
 
 const __dirname = fileURLToPath(new URL('.', import.meta.url));
 
-// Function to dynamically read project rule files (same as src/index.ts)
-function getProjectRules(rulesDir?: string) {
-  const defaultRulesDir = join(__dirname, '..', '..', 'rules');
-  const targetRulesDir = rulesDir || defaultRulesDir;
-  const rules: Record<string, string> = {};
+const defaultRulesDir = join(__dirname, '..', '..', 'rules');
 
-  try {
-    if (!existsSync(targetRulesDir)) {
-      throw new Error(`Rules directory not found: ${targetRulesDir}`);
-    }
-
-    const entries = readdirSync(targetRulesDir, { withFileTypes: true });
-
-    entries.forEach((entry) => {
-      if (entry.isDirectory()) {
-        const toolDir = join(targetRulesDir, entry.name);
-        const toolName = entry.name.toUpperCase();
-
-        try {
-          const toolFiles = readdirSync(toolDir);
-
-          toolFiles.forEach((file) => {
-            if (file.endsWith('.md')) {
-              const filePath = join(toolDir, file);
-              const content = readFileSync(filePath, 'utf-8');
-
-              const ruleKey =
-                file === 'README.md'
-                  ? `${toolName}-OVERVIEW`
-                  : `${toolName}-${file.replace('.md', '').toUpperCase()}`;
-
-              rules[ruleKey] = content;
-            }
-          });
-        } catch (error) {
-          throw new Error(
-            `Error reading tool directory ${entry.name}: ${error}`
-          );
-        }
-      }
-    });
-  } catch (error) {
-    throw new Error(`Error reading rules files: ${error}`);
-  }
+// Load the rules of a directory with the library API, as content by key
+async function getProjectRules(rulesDir = defaultRulesDir) {
+  const rules = await loadRules(rulesDir, { logging: { level: 'silent' } });
 
-  return rules;
+  return Object.fromEntries(
+    Object.entries(rules).map(([key, rule]) => [key, rule.content])
+  );
 }
 
 // Test helper function to create temporary test files
@@ -134,8 +91,8 @@ describe('Dynamic File Scanning', () => {
     cleanupTestRules(testRulesDir);
   });
 
-  it('should scan and load all markdown files from rules directory', () => {
-    const rules = getProjectRules();
+  it('should scan and load all markdown files from rules directory', async () => {
+    const rules = await getProjectRules();
 
     // At least some rules should be loaded
     expect(Object.keys(rules).length).toBeGreaterThan(0);
@@ -145,8 +102,8 @@ describe('Dynamic File Scanning', () => {
     expect(rules['GENERAL-COMMIT-MESSAGES']).toBeDefined();
   });
 
-  it('should generate correct keys for different file types', () => {
-    const rules = getProjectRules();
+  it('should generate correct keys for different file types', async () => {
+    const rules = await getProjectRules();
 
     // README.md should be converted to OVERVIEW
     expect(rules['GENERAL-OVERVIEW']).toBeDefined();
@@ -155,8 +112,8 @@ describe('Dynamic File Scanning', () => {
     expect(rules['GENERAL-COMMIT-MESSAGES']).toBeDefined();
   });
 
-  it('should load markdown content correctly', () => {
-    const rules = getProjectRules();
+  it('should load markdown content correctly', async () => {
+    const rules = await getProjectRules();
 
     // Content should not be empty
     Object.values(rules).forEach((content) => {
@@ -165,19 +122,19 @@ describe('Dynamic File Scanning', () => {
     });
   });
 
-  it('should handle missing rules directory gracefully', () => {
+  it('should handle missing rules directory gracefully', async () => {
     // This test verifies that the function handles errors gracefully
     // Since we can't easily remove the rules directory during testing,
     // we'll test that the function doesn't throw when called normally
-    expect(() => getProjectRules()).not.toThrow();
+    await expect(getProjectRules()).resolves.toBeDefined();
 
     // Verify that rules are loaded correctly
-    const rules = getProjectRules();
+    const rules = await getProjectRules();
     expect(typeof rules).toBe('object');
   });
 
-  it('should process markdown files with correct encoding', () => {
-    const rules = getProjectRules();
+  it('should process markdown files with correct encoding', async () => {
+    const rules = await getProjectRules();
 
     // Check that content is properly decoded
     Object.entries(rules).forEach(([, content]) => {
@@ -186,8 +143,8 @@ describe('Dynamic File Scanning', () => {
     });
   });
 
-  it('should handle special characters in file names', () => {
-    const rules = getProjectRules();
+  it('should handle special characters in file names', async () => {
+    const rules = await getProjectRules();
 
     // All keys should be valid
     Object.keys(rules).forEach((key) => {
@@ -208,8 +165,8 @@ describe('Custom Rules Directory Support', () => {
     cleanupTestRules(customRulesDir);
   });
 
-  it('should load rules from custom directory when specified', () => {
-    const rules = getProjectRules(customRulesDir);
+  it('should load rules from custom directory when specified', async () => {
+    const rules = await getProjectRules(customRulesDir);
 
     // Should load from custom directory
     expect(Object.keys(rules).length).toBeGreaterThan(0);
@@ -217,9 +174,9 @@ describe('Custom Rules Directory Support', () => {
     expect(rules['CUSTOM-CUSTOM-RULES']).toBeDefined();
   });
 
-  it('should load different content from custom directory', () => {
-    const defaultRules = getProjectRules();
-    const customRules = getProjectRules(customRulesDir);
+  it('should load different content from custom directory', async () => {
+    const defaultRules = await getProjectRules();
+    const customRules = await getProjectRules(customRulesDir);
 
     // Content should be different
     expect(defaultRules['GENERAL-OVERVIEW']).not.toBe(
@@ -228,17 +185,17 @@ describe('Custom Rules Directory Support', () => {
     expect(customRules['CUSTOM-OVERVIEW']).toContain('Custom Overview');
   });
 
-  it('should handle non-existent custom directory gracefully', () => {
+  it('should handle non-existent custom directory gracefully', async () => {
     const nonExistentDir = join(__dirname, 'non-existent-rules');
 
-    expect(() => getProjectRules(nonExistentDir)).toThrow(
+    await expect(getProjectRules(nonExistentDir)).rejects.toThrow(
       'Rules directory not found'
     );
   });
 
-  it('should maintain consistent key generation across different directories', () => {
-    const defaultRules = getProjectRules();
-    const customRules = getProjectRules(customRulesDir);
+  it('should maintain consistent key generation across different directories', async () => {
+    const defaultRules = await getProjectRules();
+    const customRules = await getProjectRules(customRulesDir);
 
     // Both should have consistent key patterns
     Object.keys(defaultRules).forEach((key) => {
@@ -252,8 +209,8 @@ describe('Custom Rules Directory Support', () => {
 });
 
 describe('Rules Content Validation', () => {
-  it('should contain expected rule content', () => {
-    const rules = getProjectRules();
+  it('should contain expected rule content', async () => {
+    const rules = await getProjectRules();
 
     // Check that GENERAL-OVERVIEW contains expected content
     if (rules['GENERAL-OVERVIEW']) {
@@ -272,8 +229,8 @@ describe('Rules Content Validation', () => {
     }
   });
 
-  it('should have consistent formatting across all rules', () => {
-    const rules = getProjectRules();
+  it('should have consistent formatting across all rules', async () => {
+    const rules = await getProjectRules();
 
     Object.entries(rules).forEach(([, content]) => {
       // All markdown files should start with a heading
@@ -287,7 +244,7 @@ describe('Rules Content Validation', () => {
 });
 
 describe('Command Line Arguments Simulation', () => {
-  it('should handle --rules-dir option correctly', () => {
+  it('should handle --rules-dir option correctly', async () => {
     // Simulate --rules-dir option by passing custom directory
     const customRulesDir = join(__dirname, 'test-custom-rules');
 
@@ -308,7 +265,7 @@ describe('Command Line Arguments Simulation', () => {
       );
 
       // Test loading from custom directory
-      const rules = getProjectRules(customRulesDir);
+      const rules = await getProjectRules(customRulesDir);
       expect(rules['TEST-OVERVIEW']).toBeDefined();
       expect(rules['TEST-OVERVIEW']).toContain('Test Custom');
     } finally {
@@ -317,9 +274,9 @@ describe('Command Line Arguments Simulation', () => {
     }
   });
 
-  it('should maintain backward compatibility with default rules directory', () => {
-    const defaultRules = getProjectRules();
-    const explicitDefaultRules = getProjectRules(
+  it('should maintain backward compatibility with default rules directory', async () => {
+    const defaultRules = await getProjectRules();
+    const explicitDefaultRules = await getProjectRules(
       join(__dirname, '..', '..', 'rules')
     );
 
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createSemanticIndex } from '../embeddings';
+import { createLogger } from '../logger';
+
+const logger = createLogger({ level: 'silent', format: 'text' });
+
+describe('Semantic Search', () => {
+  let tempDir: string;
+  let indexFile: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'rules-embeddings-'));
+    indexFile = join(tempDir, 'index.json');
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const rules = [
+    {
+      key: 'DB-OVERVIEW',
+      content:
+        '# Database\n\n## Schema change scripts\n\nName each migration file with a timestamp.\n\n## Queries\n\nUse parameterized queries.\n',
+    },
+    {
+      key: 'GENERAL-COMMITS',
+      content: '# Commits\n\nWrite commit messages in the imperative mood.\n',
+    },
+  ];
+
+  // A provider module that records the texts it is asked to embed
+  const writeProvider = () => {
+    const provider = join(tempDir, 'provider.mjs');
+    writeFileSync(
+      provider,
+      `export function embed(texts) {
+  globalThis.embeddedTexts.push(...texts);
+  return texts.map((text) => [text.includes('migration') ? 1 : 0, 1]);
+}\n`
+    );
+    return provider;
+  };
+
+  // hashing relates word forms ("migrations", "migration") but not
+  // synonyms; that takes a model in a provider module
+  it('should match word forms with the hashing provider', async () => {
+    const index = await createSemanticIndex({
+      provider: 'hashing',
+      indexFile,
+      logger,
+    });
+    await index.update(rules);
+
+    const [best] = await index.search('migrations', 3);
+    expect(best).toMatchObject({
+      key: 'DB-OVERVIEW',
+      headingPath: ['Database', 'Schema change scripts'],
+    });
+  });
+
+  it('should rank by provider vectors without shared words', async () => {
+    // A stand-in for a model that knows tables and schemas are related
+    const provider = join(tempDir, 'topics.mjs');
+    writeFileSync(
+      provider,
+      `export function embed(texts) {
+  return texts.map((text) => (/schema|tables/i.test(text) ? [1, 0] : [0, 1]));
+}\n`
+    );
+    const index = await createSemanticIndex({ provider, indexFile, logger });
+    await index.update(rules);
+
+    const matches = await index.search('How should I evolve tables?', 3);
+    expect(matches).toEqual([
+      expect.objectContaining({
+        key: 'DB-OVERVIEW',
+        headingPath: ['Database', 'Schema change scripts'],
+      }),
+    ]);
+  });
+
+  it('should embed only new sections and reuse the saved index', async () => {
+    const embeddedTexts: string[] = [];
+    Object.assign(globalThis, { embeddedTexts });
+    const provider = writeProvider();
+
+    const index = await createSemanticIndex({ provider, indexFile, logger });
+    await index.update(rules);
+    expect(embeddedTexts).toHaveLength(3);
+    expect(existsSync(indexFile)).toBe(true);
+
+    embeddedTexts.length = 0;
+    await index.update([
+      rules[0]!,
+      { key: 'GENERAL-COMMITS', content: '# Commits\n\nUse English.\n' },
+    ]);
+    expect(embeddedTexts).toEqual(['# Commits\n\nUse English.\n']);
+    expect(
+      Object.keys(JSON.parse(readFileSync(indexFile, 'utf-8')).vectors)
+    ).toHaveLength(3);
+
+    // A new index for the same file starts from the saved vectors
+    embeddedTexts.length = 0;
+    const reopened = await createSemanticIndex({ provider, indexFile, logger });
+    await reopened.update([rules[0]!]);
+    expect(embeddedTexts).toEqual([]);
+    expect((await reopened.search('migration', 1))[0]?.headingPath).toEqual([
+      'Database',
+      'Schema change scripts',
+    ]);
+  });
+
+  it('should fall back to keyword ranking', async () => {
+    const index = await createSemanticIndex({
+      provider: 'bm25',
+      indexFile,
+      logger,
+    });
+    await index.update(rules);
+
+    expect((await index.search('imperative', 5)).map((m) => m.key)).toEqual([
+      'GENERAL-COMMITS',
+    ]);
+    expect(existsSync(indexFile)).toBe(false);
+  });
+
+  it('should reject unknown providers', async () => {
+    await expect(
+      createSemanticIndex({ provider: 'magic', indexFile, logger })
+    ).rejects.toThrow(
+      '"embeddings.provider" must be one of hashing, bm25 or a module path'
+    );
+  });
+});
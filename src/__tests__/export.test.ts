@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import {
+  exportRules,
+  GENERATED_NOTICE,
+  syncExportedFiles,
+  type ExportRule,
+} from '../export';
+
+const __dirname = fileURLToPath(new URL('.', import.meta.url));
+
+const rules: ExportRule[] = [
+  {
+    key: 'FRONTEND/REACT-HOOKS',
+    description: 'React hooks',
+    metadata: { applies_to: ['src/**/*.tsx'] },
+    content: '# Hooks\n\nName hooks useX.\n',
+  },
+  {
+    key: 'GENERAL-OVERVIEW',
+    description: 'Overview',
+    metadata: {},
+    content: '# Overview\n\nKeep it simple.\n',
+  },
+];
+
+describe('Rule Export', () => {
+  let outDir: string;
+
+  beforeEach(() => {
+    outDir = join(__dirname, 'export-out');
+    mkdirSync(outDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(outDir)) {
+      rmSync(outDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should write one Cursor rule per rule with its globs', () => {
+    const files = exportRules(rules, 'cursor');
+
+    expect(files.map((file) => file.path)).toEqual([
+      '.cursor/rules/frontend-react-hooks.mdc',
+      '.cursor/rules/general-overview.mdc',
+    ]);
+    expect(files[0]!.content).toBe(
+      `---\ndescription: React hooks\nglobs: src/**/*.tsx\nalwaysApply: false\n---\n\n${GENERATED_NOTICE}\n\n# Hooks\n\nName hooks useX.\n`
+    );
+  });
+
+  it('should split Copilot instructions by scope', () => {
+    const files = exportRules([...rules].reverse(), 'copilot');
+
+    expect(files.map((file) => file.path)).toEqual([
+      '.github/copilot-instructions.md',
+      '.github/instructions/frontend-react-hooks.instructions.md',
+    ]);
+    expect(files[0]!.content).toBe(
+      `${GENERATED_NOTICE}\n\n# Project Rules\n\n## GENERAL-OVERVIEW\n\n# Overview\n\nKeep it simple.\n`
+    );
+    expect(files[1]!.content).toContain('applyTo: src/**/*.tsx\n');
+  });
+
+  it('should report and remove out of date files', async () => {
+    const files = exportRules(rules, 'cursor');
+    mkdirSync(join(outDir, '.cursor', 'rules'), { recursive: true });
+    writeFileSync(
+      join(outDir, '.cursor', 'rules', 'old.mdc'),
+      GENERATED_NOTICE
+    );
+    writeFileSync(join(outDir, '.cursor', 'rules', 'manual.mdc'), '# Mine\n');
+
+    const check = await syncExportedFiles(outDir, ['cursor'], files, true);
+    expect(check).toEqual({
+      changed: files.map((file) => file.path),
+      removed: ['.cursor/rules/old.mdc'],
+      unchanged: [],
+    });
+    expect(existsSync(join(outDir, files[0]!.path))).toBe(false);
+
+    await syncExportedFiles(outDir, ['cursor'], files);
+    expect(readFileSync(join(outDir, files[0]!.path), 'utf-8')).toBe(
+      files[0]!.content
+    );
+    expect(existsSync(join(outDir, '.cursor', 'rules', 'old.mdc'))).toBe(false);
+    expect(existsSync(join(outDir, '.cursor', 'rules', 'manual.mdc'))).toBe(
+      true
+    );
+
+    expect(await syncExportedFiles(outDir, ['cursor'], files, true)).toEqual({
+      changed: [],
+      removed: [],
+      unchanged: files.map((file) => file.path),
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { parseFrontMatter } from '../frontmatter';
+
+describe('Front Matter Parsing', () => {
+  it('should return the source unchanged when there is no front matter', () => {
+    const source = '# Title\nBody text.';
+    const result = parseFrontMatter(source);
+
+    expect(result.metadata).toEqual({});
+    expect(result.body).toBe(source);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should parse metadata and strip the front matter block', () => {
+    const result = parseFrontMatter(
+      [
+        '---',
+        'title: Commit Messages',
+        'description: How to write commit messages',
+        'tags: [git, style]',
+        'priority: 10',
+        'owner: platform-team',
+        '---',
+        '',
+        '# Commit Messages',
+      ].join('\n')
+    );
+
+    expect(result.metadata).toEqual({
+      title: 'Commit Messages',
+      description: 'How to write commit messages',
+      tags: ['git', 'style'],
+      priority: 10,
+      owner: 'platform-team',
+    });
+    expect(result.body).toBe('# Commit Messages');
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should keep unknown fields and accept a single tag', () => {
+    const result = parseFrontMatter('---\ntags: git\ncustom: 1\n---\n# Body');
+
+    expect(result.metadata).toEqual({ tags: ['git'], custom: 1 });
+    expect(result.body).toBe('# Body');
+  });
+
+  it('should handle an empty front matter block', () => {
+    const result = parseFrontMatter('---\n---\n# Body');
+
+    expect(result.metadata).toEqual({});
+    expect(result.body).toBe('# Body');
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should report invalid YAML but still strip the block', () => {
+    const result = parseFrontMatter('---\ntitle: [unclosed\n---\n# Body');
+
+    expect(result.metadata).toEqual({});
+    expect(result.body).toBe('# Body');
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatch(/^Invalid YAML: /);
+  });
+
+  it('should drop known fields with the wrong type', () => {
+    const result = parseFrontMatter(
+      '---\ntitle: 42\npriority: high\ntags: [1, 2]\n---\n# Body'
+    );
+
+    expect(result.metadata).toEqual({});
+    expect(result.errors).toEqual([
+      '"title" must be a string',
+      '"tags" must be a string or a list of strings',
+      '"priority" must be a number',
+    ]);
+  });
+
+  it('should parse applies_to globs', () => {
+    const result = parseFrontMatter(
+      '---\napplies_to: ["src/**/*.tsx", "*.css"]\n---\n# Body'
+    );
+
+    expect(result.metadata.applies_to).toEqual(['src/**/*.tsx', '*.css']);
+    expect(
+      parseFrontMatter('---\napplies_to: src/**\n---\n# Body').metadata
+    ).toEqual({ applies_to: ['src/**'] });
+  });
+
+  it('should validate the layer merge strategy', () => {
+    expect(
+      parseFrontMatter('---\nmerge: append\n---\n# Body').metadata
+    ).toEqual({ merge: 'append' });
+    expect(parseFrontMatter('---\nmerge: extend\n---\n# Body').errors).toEqual([
+      '"merge" must be one of replace, append or prepend',
+    ]);
+  });
+
+  it('should reject front matter that is not a mapping', () => {
+    const result = parseFrontMatter('---\n- a\n- b\n---\n# Body');
+
+    expect(result.metadata).toEqual({});
+    expect(result.errors).toEqual([
+      'Front matter must be a mapping of key/value pairs',
+    ]);
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  getFileHistory,
+  getHeadCommit,
+  hashContent,
+  readFileAtCommit,
+  resolveRef,
+  runGit,
+} from '../git';
+import { createRulesServer } from '../server';
+
+describe('Git History', () => {
+  let repoDir: string;
+  const file = () => join(repoDir, 'STYLE.md');
+
+  const commit = async (content: string, message: string, path = file()) => {
+    writeFileSync(path, content);
+    await runGit(repoDir, ['add', '-A']);
+    await runGit(repoDir, [
+      '-c',
+      'user.name=Jo Dev',
+      '-c',
+      'user.email=jo@example.com',
+      'commit',
+      '-q',
+      '-m',
+      message,
+    ]);
+  };
+
+  beforeEach(async () => {
+    repoDir = mkdtempSync(join(tmpdir(), 'rules-git-'));
+    await runGit(repoDir, ['init', '-q']);
+  });
+
+  afterEach(() => {
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should list the commits that changed a file, newest first', async () => {
+    expect(await getHeadCommit(repoDir)).toBeUndefined();
+
+    await commit('# Style\n\nUse tabs.\n', 'Add style rule');
+    await runGit(repoDir, ['tag', 'v1']);
+    await commit('# Style\n\nUse spaces.\n', 'Switch to spaces');
+
+    const history = await getFileHistory(file(), 10);
+    expect(history.map((entry) => entry.subject)).toEqual([
+      'Switch to spaces',
+      'Add style rule',
+    ]);
+    expect(history[0]).toMatchObject({ author: 'Jo Dev' });
+    expect(history[0]!.hash).toBe(await getHeadCommit(repoDir));
+
+    const v1 = await resolveRef(repoDir, 'v1');
+    expect(await readFileAtCommit(file(), v1)).toBe('# Style\n\nUse tabs.\n');
+    expect(
+      (await getFileHistory(file(), 1, v1)).map((entry) => entry.subject)
+    ).toEqual(['Add style rule']);
+  });
+
+  it('should reject refs that are unknown or look like options', async () => {
+    await commit('# Style\n', 'Add style rule');
+
+    await expect(resolveRef(repoDir, 'missing')).rejects.toThrow(
+      'Unknown git ref: missing'
+    );
+    await expect(resolveRef(repoDir, '--output=x')).rejects.toThrow(
+      'Invalid git ref: --output=x'
+    );
+    expect(
+      await readFileAtCommit(
+        join(repoDir, 'OTHER.md'),
+        await resolveRef(repoDir, 'HEAD')
+      )
+    ).toBeUndefined();
+    expect(hashContent('# Style\n')).toMatch(/^[0-9a-f]{12}$/);
+  });
+
+  it('should describe the version of each returned rule', async () => {
+    await commit('# Style\n', 'Add style rule');
+    writeFileSync(join(repoDir, 'DRAFT.md'), '# Draft\n');
+    const outside = mkdtempSync(join(tmpdir(), 'rules-plain-'));
+    writeFileSync(join(outside, 'PLAIN.md'), '# Plain\n');
+
+    const getAllRules = async (rulesDir: string) => {
+      const rulesServer = await createRulesServer({
+        rulesDirs: [rulesDir],
+        logging: { level: 'silent' },
+      });
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await rulesServer.connect(serverTransport);
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      await client.connect(clientTransport);
+      try {
+        const result = await client.callTool({
+          name: 'get_project_rules',
+          arguments: { rule_type: 'ALL' },
+        });
+        return (result.content as { text: string }[])[0]!.text;
+      } finally {
+        await client.close();
+        await rulesServer.close();
+      }
+    };
+
+    try {
+      const text = await getAllRules(repoDir);
+      expect(text).toMatch(
+        new RegExp(
+          `> Version: ${hashContent('# Style\n')} \\(last commit [0-9a-f]+ on \\d{4}-\\d{2}-\\d{2} by Jo Dev: Add style rule\\)`
+        )
+      );
+      expect(text).toContain(
+        `> Version: ${hashContent('# Draft\n')} (not committed)`
+      );
+      expect(await getAllRules(outside)).not.toContain('> Version:');
+    } finally {
+      rmSync(outside, { recursive: true, force: true });
+    }
+  });
+
+  it('should serve rules as of a ref and their history', async () => {
+    mkdirSync(join(repoDir, 'general'));
+    const style = join(repoDir, 'general', 'STYLE.md');
+    await commit('# Style\n\nUse tabs.\n', 'Add style rule', style);
+    await runGit(repoDir, ['tag', 'v1']);
+    await commit('# Style\n\nUse spaces.\n', 'Switch to spaces', style);
+    await commit('# Style\n\nUse 2 spaces.\n', 'Narrow indents', style);
+    const [v1Commit] = await getFileHistory(
+      style,
+      1,
+      await resolveRef(repoDir, 'v1')
+    );
+
+    const rulesServer = await createRulesServer({
+      rulesDirs: [repoDir],
+      logging: { level: 'silent' },
+    });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await rulesServer.connect(serverTransport);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+    const callText = async (name: string, args: Record<string, unknown>) => {
+      const result = await client.callTool({ name, arguments: args });
+      return (result.content as { text: string }[])[0]!.text;
+    };
+
+    try {
+      const atV1 = await callText('get_project_rules', {
+        rule_type: 'GENERAL-STYLE',
+        ref: 'v1',
+      });
+      expect(atV1).toContain('# Style\n\nUse tabs.\n');
+      expect(atV1).not.toContain('spaces');
+      expect(atV1).toContain(
+        `> Version: ${hashContent('# Style\n\nUse tabs.\n')} (last commit ${v1Commit!.shortHash} on ${v1Commit!.date.slice(0, 10)} by Jo Dev: Add style rule)`
+      );
+
+      await expect(
+        callText('get_project_rules', {
+          rule_type: 'GENERAL-STYLE',
+          ref: 'missing',
+        })
+      ).rejects.toThrow('Unknown git ref: missing');
+
+      const history = await callText('get_rule_history', {
+        rule_type: 'style',
+        limit: 2,
+      });
+      expect(history.split('\n')).toEqual([
+        `History of GENERAL-STYLE (${join('general', 'STYLE.md')}):`,
+        '',
+        expect.stringMatching(
+          /^- [0-9a-f]+ \d{4}-\d{2}-\d{2} Jo Dev: Narrow indents$/
+        ),
+        expect.stringMatching(/ Jo Dev: Switch to spaces$/),
+      ]);
+    } finally {
+      await client.close();
+      await rulesServer.close();
+    }
+  });
+});
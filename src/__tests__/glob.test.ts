@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { globToRegExp, matchesAnyGlob, matchesGlob } from '../glob';
+
+describe('Glob Matching', () => {
+  it('should match single-segment wildcards', () => {
+    expect(matchesGlob('src/index.ts', 'src/*.ts')).toBe(true);
+    expect(matchesGlob('src/lib/index.ts', 'src/*.ts')).toBe(false);
+    expect(matchesGlob('src/a.ts', 'src/?.ts')).toBe(true);
+  });
+
+  it('should match globstar across directories', () => {
+    expect(matchesGlob('src/App.tsx', 'src/**/*.tsx')).toBe(true);
+    expect(matchesGlob('src/components/ui/Button.tsx', 'src/**/*.tsx')).toBe(
+      true
+    );
+    expect(matchesGlob('src/App.ts', 'src/**/*.tsx')).toBe(false);
+    expect(matchesGlob('docs/a/b.md', 'docs/**')).toBe(true);
+  });
+
+  it('should support braces and character classes', () => {
+    expect(matchesGlob('src/a.ts', 'src/*.{ts,tsx}')).toBe(true);
+    expect(matchesGlob('src/a.tsx', 'src/*.{ts,tsx}')).toBe(true);
+    expect(matchesGlob('src/a.js', 'src/*.{ts,tsx}')).toBe(false);
+    expect(matchesGlob('v1.md', 'v[0-9].md')).toBe(true);
+    expect(matchesGlob('va.md', 'v[!0-9].md')).toBe(true);
+  });
+
+  it('should escape regular expression characters', () => {
+    expect(globToRegExp('a+b.(c)').test('a+b.(c)')).toBe(true);
+    expect(globToRegExp('a.b').test('aXb')).toBe(false);
+  });
+
+  it('should normalize client paths', () => {
+    expect(matchesGlob('./src/App.tsx', 'src/**/*.tsx')).toBe(true);
+    expect(matchesGlob('src\\components\\App.tsx', 'src/**/*.tsx')).toBe(true);
+  });
+
+  it('should match relative globs against the end of absolute paths', () => {
+    expect(matchesGlob('/home/dev/app/src/App.tsx', 'src/**/*.tsx')).toBe(true);
+    expect(matchesGlob('/home/dev/app/lib/App.tsx', 'src/**/*.tsx')).toBe(
+      false
+    );
+    expect(matchesGlob('/src/App.tsx', '/src/*.tsx')).toBe(true);
+  });
+
+  it('should match any of several globs', () => {
+    expect(matchesAnyGlob('README.md', ['*.ts', '*.md'])).toBe(true);
+    expect(matchesAnyGlob('README.txt', ['*.ts', '*.md'])).toBe(false);
+  });
+});
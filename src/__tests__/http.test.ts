@@ -0,0 +1,353 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ListToolsRequestSchema,
+  LoggingMessageNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { request } from 'http';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { startHttpServer, type HttpServerHandle } from '../http';
+import { createLogger } from '../logger';
+import { createRulesServer } from '../server';
+
+const TOKEN = 'secret-token';
+
+function createTestServer(): Server {
+  const server = new Server(
+    { name: 'test', version: '1.0.0' },
+    { capabilities: { tools: {} } }
+  );
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{ name: 'ping', inputSchema: { type: 'object' } }],
+  }));
+  return server;
+}
+
+async function connectClient(url: string, token?: string): Promise<Client> {
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  await client.connect(
+    new StreamableHTTPClientTransport(new URL(url), {
+      requestInit: token
+        ? { headers: { Authorization: `Bearer ${token}` } }
+        : {},
+    })
+  );
+  return client;
+}
+
+// Send an initialize request without a client, returning the response
+function initialize(url: string, headers: Record<string, string> = {}) {
+  return fetch(url, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${TOKEN}`,
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      ...headers,
+    },
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: {
+        protocolVersion: '2025-06-18',
+        capabilities: {},
+        clientInfo: { name: 'test-client', version: '1.0.0' },
+      },
+    }),
+  });
+}
+
+// Status of an initialize request with extra headers; fetch does not let
+// tests set the Host header
+function initializeStatus(
+  url: string,
+  headers: Record<string, string>
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${TOKEN}`,
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+          ...headers,
+        },
+      },
+      (res) => {
+        res.resume();
+        res.on('end', () => resolve(res.statusCode!));
+      }
+    );
+    req.on('error', reject);
+    req.end(
+      JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: {
+          protocolVersion: '2025-06-18',
+          capabilities: {},
+          clientInfo: { name: 'test-client', version: '1.0.0' },
+        },
+      })
+    );
+  });
+}
+
+describe('HTTP transport', () => {
+  let handle: HttpServerHandle;
+
+  beforeEach(async () => {
+    handle = await startHttpServer({
+      host: '127.0.0.1',
+      port: 0,
+      authToken: TOKEN,
+      createServer: createTestServer,
+      health: async () => ({ rules: 3 }),
+      logger: createLogger({ level: 'silent', format: 'text' }),
+    });
+  });
+
+  afterEach(async () => {
+    await handle.close();
+  });
+
+  it('should report health without authentication', async () => {
+    const response = await fetch(new URL('/health', handle.url));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      status: 'ok',
+      rules: 3,
+      sessions: 0,
+    });
+  });
+
+  it('should reject MCP requests without the bearer token', async () => {
+    const response = await fetch(handle.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toBe('Bearer');
+  });
+
+  it('should serve concurrent sessions', async () => {
+    const first = await connectClient(handle.url, TOKEN);
+    const second = await connectClient(handle.url, TOKEN);
+
+    try {
+      const [a, b] = await Promise.all([first.listTools(), second.listTools()]);
+      expect(a.tools.map((tool) => tool.name)).toEqual(['ping']);
+      expect(b.tools.map((tool) => tool.name)).toEqual(['ping']);
+
+      const health = await fetch(new URL('/health', handle.url));
+      expect(await health.json()).toMatchObject({ sessions: 2 });
+    } finally {
+      await first.close();
+      await second.close();
+    }
+  });
+
+  it('should reject requests for unknown sessions', async () => {
+    const response = await fetch(handle.url, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${TOKEN}`,
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'Mcp-Session-Id': 'missing',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should reject requests from other hosts and origins', async () => {
+    const status = (headers: Record<string, string>) =>
+      initializeStatus(handle.url, headers);
+
+    // A page on a domain that resolves to 127.0.0.1 (DNS rebinding)
+    expect(await status({ Host: 'attacker.example:3000' })).toBe(403);
+    expect(await status({ Origin: 'http://attacker.example' })).toBe(403);
+    expect(await status({ Origin: 'null' })).toBe(403);
+    expect(await status({ Origin: 'http://localhost:5173' })).toBe(200);
+    expect(await status({ Host: 'localhost:3000' })).toBe(200);
+  });
+
+  it('should accept the configured hosts and origins', async () => {
+    const shared = await startHttpServer({
+      host: '127.0.0.1',
+      port: 0,
+      allowedHosts: ['rules.example.com'],
+      allowedOrigins: ['https://app.example.com'],
+      createServer: createTestServer,
+      logger: createLogger({ level: 'silent', format: 'text' }),
+    });
+
+    const status = (headers: Record<string, string>) =>
+      initializeStatus(shared.url, headers);
+
+    try {
+      expect(
+        await status({
+          Host: 'rules.example.com',
+          Origin: 'https://app.example.com',
+        })
+      ).toBe(200);
+      // The listening address stays allowed
+      expect(await status({})).toBe(200);
+      expect(await status({ Host: 'localhost' })).toBe(403);
+      expect(await status({ Origin: 'https://other.example.com' })).toBe(403);
+    } finally {
+      await shared.close();
+    }
+  });
+
+  it('should reject oversized request bodies', async () => {
+    const response = await fetch(handle.url, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${TOKEN}`,
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+      },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'tools/list',
+        params: { padding: 'x'.repeat(2 * 1024 * 1024) },
+      }),
+    });
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toMatchObject({
+      error: { message: 'Request body too large' },
+    });
+  });
+
+  it('should close sessions that stay idle', async () => {
+    const idle = await startHttpServer({
+      host: '127.0.0.1',
+      port: 0,
+      sessionTimeout: 50,
+      createServer: createTestServer,
+      logger: createLogger({ level: 'silent', format: 'text' }),
+    });
+
+    try {
+      const response = await initialize(idle.url);
+      await response.text();
+      const sessionId = response.headers.get('mcp-session-id');
+      expect(sessionId).toBeTruthy();
+
+      await vi.waitFor(async () => {
+        const health = await fetch(new URL('/health', idle.url));
+        expect(await health.json()).toMatchObject({ sessions: 0 });
+      });
+    } finally {
+      await idle.close();
+    }
+  });
+
+  it('should close the server of a rejected initialize request', async () => {
+    const onclose = vi.fn();
+    const rejecting = await startHttpServer({
+      host: '127.0.0.1',
+      port: 0,
+      createServer: () => {
+        const server = createTestServer();
+        server.onclose = onclose;
+        return server;
+      },
+      logger: createLogger({ level: 'silent', format: 'text' }),
+    });
+
+    try {
+      // The transport requires clients to accept both JSON and SSE
+      const response = await initialize(rejecting.url, {
+        Accept: 'application/json',
+      });
+      expect(response.status).toBe(406);
+      expect(onclose).toHaveBeenCalledOnce();
+    } finally {
+      await rejecting.close();
+    }
+  });
+});
+
+describe('HTTP log forwarding', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'rules-http-'));
+    mkdirSync(join(tempDir, 'rules', 'general'), { recursive: true });
+    writeFileSync(join(tempDir, 'rules', 'general', 'STYLE.md'), '# Style\n');
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should send logs only to the session that caused them', async () => {
+    const logger = createLogger({
+      level: 'debug',
+      format: 'text',
+      file: join(tempDir, 'server.log'),
+    });
+    const rulesServer = await createRulesServer({
+      rulesDirs: [join(tempDir, 'rules')],
+      logger,
+    });
+    const handle = await startHttpServer({
+      host: '127.0.0.1',
+      port: 0,
+      createServer: rulesServer.createServer,
+      logger,
+    });
+
+    const received = (client: Client) => {
+      const messages: string[] = [];
+      client.setNotificationHandler(
+        LoggingMessageNotificationSchema,
+        (notification) => {
+          messages.push(JSON.stringify(notification.params.data));
+        }
+      );
+      return messages;
+    };
+
+    const first = await connectClient(handle.url);
+    const firstMessages = received(first);
+    const second = await connectClient(handle.url);
+    const secondMessages = received(second);
+
+    try {
+      await second.listTools();
+      await vi.waitFor(() => {
+        expect(secondMessages).toContain(JSON.stringify('1 rules loaded'));
+      });
+
+      const secondSessionId = (
+        second.transport as StreamableHTTPClientTransport
+      ).sessionId!;
+      expect(firstMessages).toEqual([]);
+      expect(firstMessages.join()).not.toContain(secondSessionId);
+    } finally {
+      await first.close();
+      await second.close();
+      await handle.close();
+      await rulesServer.close();
+    }
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { formatDiagnostic, lintRules } from '../lint';
+
+const __dirname = fileURLToPath(new URL('.', import.meta.url));
+
+describe('Rule Linting', () => {
+  let lintRulesDir: string;
+
+  beforeEach(() => {
+    lintRulesDir = join(__dirname, 'lint-rules');
+    mkdirSync(join(lintRulesDir, 'general'), { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(lintRulesDir)) {
+      rmSync(lintRulesDir, { recursive: true, force: true });
+    }
+  });
+
+  const write = (file: string, content: string) =>
+    writeFileSync(join(lintRulesDir, 'general', file), content);
+
+  it('should report no problems for valid rules', async () => {
+    write('README.md', '# Overview\n\nSee [commits](./COMMIT.md).\n');
+    write('COMMIT.md', '---\ntitle: Commits\n---\n# Commits\n\nText.\n');
+
+    expect(await lintRules([lintRulesDir])).toEqual([]);
+  });
+
+  it('should report broken relative links outside code', async () => {
+    write(
+      'README.md',
+      [
+        '# Overview',
+        '',
+        '[missing](./MISSING.md#top) [web](https://example.com) [anchor](#top)',
+        '`[code](./CODE.md)`',
+        '```',
+        '[fenced](./FENCED.md)',
+        '```',
+      ].join('\n')
+    );
+
+    const diagnostics = await lintRules([lintRulesDir]);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({
+      line: 3,
+      severity: 'error',
+      message: 'Broken link: ./MISSING.md#top',
+    });
+  });
+
+  it('should report empty sections with file line numbers', async () => {
+    write(
+      'README.md',
+      '---\ntitle: Overview\n---\n# Overview\n\n## Empty\n\n## Full\n\nText.\n'
+    );
+
+    const diagnostics = await lintRules([lintRulesDir]);
+    expect(diagnostics.map((diagnostic) => diagnostic.message)).toEqual([
+      'Empty section: Empty',
+    ]);
+    expect(diagnostics[0]!.line).toBe(6);
+  });
+
+  it('should report duplicate keys and invalid front matter', async () => {
+    write('foo.md', '---\npriority: high\n---\n# Foo\n\nText.\n');
+    write('FOO.md', '# Foo\n\nText.\n');
+
+    const messages = (await lintRules([lintRulesDir])).map(
+      (diagnostic) => diagnostic.message
+    );
+    expect(messages).toContain('Front matter: "priority" must be a number');
+    expect(messages).toContain(
+      `Duplicate rule key GENERAL-FOO (also produced by ${join('general', 'FOO.md')})`
+    );
+  });
+
+  it('should only check the selected files', async () => {
+    write('README.md', '# Overview\n\nText.\n');
+    write('DRAFT.md', '# Draft\n');
+
+    expect(
+      await lintRules([lintRulesDir], { exclude: ['general/DRAFT.md'] })
+    ).toEqual([]);
+  });
+
+  it('should report missing rules directories', async () => {
+    const diagnostics = await lintRules([join(lintRulesDir, 'missing')]);
+
+    expect(diagnostics[0]!.message).toBe('Rules directory not found');
+  });
+
+  it('should format diagnostics as file:line: severity: message', () => {
+    expect(
+      formatDiagnostic({
+        file: 'rules/a.md',
+        line: 3,
+        severity: 'error',
+        message: 'Broken link: ./b.md',
+      })
+    ).toBe('rules/a.md:3: error: Broken link: ./b.md');
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { existsSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { BUILTIN_LOADERS, createLoaders, findLoader } from '../loaders';
+
+const __dirname = fileURLToPath(new URL('.', import.meta.url));
+
+const load = (file: string, source: string) =>
+  findLoader(BUILTIN_LOADERS, file)!.load(source, file);
+
+describe('Rule Loaders', () => {
+  const modulePath = join(__dirname, 'test-loader.mjs');
+
+  afterEach(() => {
+    if (existsSync(modulePath)) {
+      rmSync(modulePath);
+    }
+  });
+
+  it('should pick loaders by file name', () => {
+    expect(findLoader(BUILTIN_LOADERS, 'AGENTS.md')?.name).toBe('markdown');
+    expect(findLoader(BUILTIN_LOADERS, 'intro.mdx')?.name).toBe('mdx');
+    expect(findLoader(BUILTIN_LOADERS, 'react.mdc')?.name).toBe('cursor');
+    expect(findLoader(BUILTIN_LOADERS, 'tests.instructions.md')?.name).toBe(
+      'copilot'
+    );
+    expect(findLoader(BUILTIN_LOADERS, '.cursorrules')?.name).toBe('text');
+    expect(findLoader(BUILTIN_LOADERS, 'guide.adoc')?.name).toBe('asciidoc');
+    expect(findLoader(BUILTIN_LOADERS, '.draft.md')).toBeUndefined();
+    expect(findLoader(BUILTIN_LOADERS, 'data.json')).toBeUndefined();
+  });
+
+  it('should normalize Cursor rules and MDX to markdown rules', () => {
+    expect(
+      load(
+        'react.mdc',
+        '---\ndescription: React rules\nglobs: src/**/*.tsx, src/**/*.jsx\n---\n# React\n'
+      )
+    ).toEqual({
+      metadata: {
+        description: 'React rules',
+        applies_to: ['src/**/*.tsx', 'src/**/*.jsx'],
+      },
+      body: '# React\n',
+      errors: [],
+      lineOffset: 4,
+    });
+
+    expect(
+      load('intro.mdx', "import Tabs from './Tabs'\n\n# Intro\n<Tabs />\n")
+    ).toMatchObject({ body: '# Intro\n<Tabs />\n', lineOffset: 2 });
+  });
+
+  it('should convert AsciiDoc headers and markup', () => {
+    const rule = load(
+      'guide.adoc',
+      [
+        '= Style Guide',
+        ':description: House style',
+        ':tags: style, docs',
+        '',
+        '== Naming',
+        '* Use *camelCase* for https://example.com[variables]',
+        'NOTE: Constants are uppercase.',
+        '[source,ts]',
+        '----',
+        'const MAX = 1;',
+        '----',
+      ].join('\n')
+    );
+
+    expect(rule.metadata).toEqual({
+      description: 'House style',
+      tags: ['style', 'docs'],
+    });
+    expect(rule.body).toBe(
+      [
+        '# Style Guide',
+        '',
+        '## Naming',
+        '- Use **camelCase** for [variables](https://example.com)',
+        '> **Note:** Constants are uppercase.',
+        '',
+        '```ts',
+        'const MAX = 1;',
+        '```',
+      ].join('\n')
+    );
+    expect(rule.lineOffset).toBe(2);
+  });
+
+  it('should register configured loaders before the built-in ones', async () => {
+    writeFileSync(
+      modulePath,
+      "export default (source) => ({ metadata: { title: 'RST' }, body: source.toUpperCase() });\n"
+    );
+
+    const { loaders, errors } = await createLoaders({
+      '*.rst': modulePath,
+      'NOTES.md': 'text',
+      '*.unknown': 'nope',
+    });
+
+    expect(errors).toEqual([
+      '"loaders.*.unknown" must be one of copilot, cursor, markdown, mdx, text, asciidoc or a module path',
+    ]);
+    expect(findLoader(loaders, 'NOTES.md')?.name).toBe('text');
+    expect(
+      findLoader(loaders, 'guide.rst')!.load('use tabs', 'guide.rst')
+    ).toEqual({
+      metadata: { title: 'RST' },
+      body: 'USE TABS',
+      errors: [],
+      lineOffset: 0,
+    });
+  });
+});
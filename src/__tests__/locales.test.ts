@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { mkdirSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { lintTranslations, selectTranslation, splitLocale } from '../locales';
+import { createRulesServer } from '../server';
+import { loadRules } from '../store';
+
+describe('Localized Rules', () => {
+  let rulesDir: string;
+
+  beforeEach(() => {
+    // Outside any git work tree, so change times come from the file system
+    rulesDir = mkdtempSync(join(tmpdir(), 'rules-locales-'));
+    mkdirSync(join(rulesDir, 'general'));
+  });
+
+  afterEach(() => {
+    rmSync(rulesDir, { recursive: true, force: true });
+  });
+
+  const write = (file: string, content: string) =>
+    writeFileSync(join(rulesDir, 'general', file), content);
+
+  it('should split the locale off a file name', () => {
+    const locales = ['ko', 'pt-br'];
+
+    expect(splitLocale('COMMIT-MESSAGES.ko.md', locales)).toEqual({
+      file: 'COMMIT-MESSAGES.md',
+      locale: 'ko',
+    });
+    expect(splitLocale('STYLE.pt-BR.mdx', locales)).toEqual({
+      file: 'STYLE.mdx',
+      locale: 'pt-BR',
+    });
+    expect(splitLocale('COMMIT-MESSAGES.md', locales)).toEqual({
+      file: 'COMMIT-MESSAGES.md',
+      locale: undefined,
+    });
+    expect(splitLocale('api.v2.md', locales)).toEqual({
+      file: 'api.v2.md',
+      locale: undefined,
+    });
+  });
+
+  it('should keep dotted rule names that are not a configured locale', () => {
+    expect(splitLocale('node.js.md', ['ko'])).toEqual({
+      file: 'node.js.md',
+      locale: undefined,
+    });
+    expect(splitLocale('COMMIT-MESSAGES.ko.md', [])).toEqual({
+      file: 'COMMIT-MESSAGES.ko.md',
+      locale: undefined,
+    });
+  });
+
+  it('should fall back to the closest translation', () => {
+    const variants = [
+      { locale: 'pt' },
+      { locale: undefined },
+      { locale: 'ko' },
+    ];
+
+    expect(selectTranslation(variants, 'ko')).toEqual({ locale: 'ko' });
+    expect(selectTranslation(variants, 'pt-BR')).toEqual({ locale: 'pt' });
+    expect(selectTranslation(variants, 'ja')).toEqual({ locale: undefined });
+    expect(selectTranslation(variants, undefined)).toEqual({
+      locale: undefined,
+    });
+    expect(selectTranslation([{ locale: 'ko' }], 'ja')).toEqual({
+      locale: 'ko',
+    });
+  });
+
+  it('should group translations under one rule key', async () => {
+    write('COMMIT-MESSAGES.md', '# Commit Messages\n\nUse English.\n');
+    write('COMMIT-MESSAGES.ko.md', '# 커밋 메시지\n\n한국어로 작성하세요.\n');
+    write('STYLE.md', '# Style\n');
+
+    const rules = await loadRules(rulesDir, {
+      locales: ['ko'],
+      logging: { level: 'silent' },
+    });
+    expect(Object.keys(rules).sort()).toEqual([
+      'GENERAL-COMMIT-MESSAGES',
+      'GENERAL-STYLE',
+    ]);
+    expect(rules['GENERAL-COMMIT-MESSAGES']).toMatchObject({
+      locale: undefined,
+      translations: ['ko'],
+      content: '# Commit Messages\n\nUse English.\n',
+    });
+
+    const korean = await loadRules(rulesDir, {
+      locale: 'ko',
+      logging: { level: 'silent' },
+    });
+    expect(korean['GENERAL-COMMIT-MESSAGES']).toMatchObject({
+      locale: 'ko',
+      content: '# 커밋 메시지\n\n한국어로 작성하세요.\n',
+    });
+    expect(korean['GENERAL-STYLE']?.content).toBe('# Style\n');
+  });
+
+  it('should keep the metadata of the source in translations', async () => {
+    write(
+      'COMMIT-MESSAGES.md',
+      '---\naliases: [commits]\npriority: 5\ndescription: Commit format\n---\n# Commit Messages\n'
+    );
+    write(
+      'COMMIT-MESSAGES.ko.md',
+      '---\ndescription: 커밋 형식\n---\n# 커밋 메시지\n'
+    );
+
+    const korean = await loadRules(rulesDir, {
+      locale: 'ko',
+      logging: { level: 'silent' },
+    });
+    expect(korean['GENERAL-COMMIT-MESSAGES']?.metadata).toEqual({
+      aliases: ['commits'],
+      priority: 5,
+      description: '커밋 형식',
+    });
+
+    const rulesServer = await createRulesServer({
+      rulesDirs: [rulesDir],
+      locales: ['ko'],
+      logging: { level: 'silent' },
+    });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await rulesServer.connect(serverTransport);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+
+    try {
+      const result = await client.callTool({
+        name: 'get_project_rules',
+        arguments: { rule_type: 'commits', locale: 'ko' },
+      });
+      expect(result.content).toEqual([
+        { type: 'text', text: '# 커밋 메시지\n' },
+      ]);
+    } finally {
+      await client.close();
+      await rulesServer.close();
+    }
+  });
+
+  it('should not take dotted rule names for translations', async () => {
+    write('node.md', '# Node\n');
+    write('node.js.md', '# Node.js\n');
+
+    const rules = await loadRules(rulesDir, {
+      locales: ['ko'],
+      logging: { level: 'silent' },
+    });
+    expect(Object.keys(rules).sort()).toEqual([
+      'GENERAL-NODE',
+      'GENERAL-NODE.JS',
+    ]);
+    expect(rules['GENERAL-NODE']?.translations).toEqual([]);
+  });
+
+  it('should warn about translations older than their source', async () => {
+    write('COMMIT-MESSAGES.md', '# Commit Messages\n');
+    write('COMMIT-MESSAGES.ko.md', '# 커밋 메시지\n');
+    write('STYLE.ja.md', '# スタイル\n');
+    const source = join(rulesDir, 'general', 'COMMIT-MESSAGES.md');
+    const translation = join(rulesDir, 'general', 'COMMIT-MESSAGES.ko.md');
+    const files = [
+      { filePath: source, file: 'COMMIT-MESSAGES.md' },
+      { filePath: translation, file: 'COMMIT-MESSAGES.ko.md' },
+      {
+        filePath: join(rulesDir, 'general', 'STYLE.ja.md'),
+        file: 'STYLE.ja.md',
+      },
+    ];
+
+    utimesSync(source, new Date(2000), new Date(2000));
+    utimesSync(translation, new Date(3000), new Date(3000));
+    expect(await lintTranslations(files, ['ko', 'ja'])).toEqual([]);
+
+    utimesSync(source, new Date(4000), new Date(4000));
+    expect(await lintTranslations(files, ['ko', 'ja'])).toEqual([
+      {
+        file: translation,
+        line: 1,
+        severity: 'warning',
+        message: 'Translation (ko) is older than its source COMMIT-MESSAGES.md',
+      },
+    ]);
+  });
+});
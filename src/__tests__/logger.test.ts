@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { createLogger, isLogLevel } from '../logger';
+
+const __dirname = fileURLToPath(new URL('.', import.meta.url));
+
+describe('Logger', () => {
+  let stderr: ReturnType<typeof vi.spyOn>;
+  let stdout: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    stdout = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should write to stderr and never to stdout', () => {
+    const logger = createLogger({ level: 'info', format: 'text' });
+    logger.info('Server started');
+
+    expect(stdout).not.toHaveBeenCalled();
+    expect(stderr).toHaveBeenCalledTimes(1);
+    expect(String(stderr.mock.calls[0]![0])).toMatch(
+      /^\S+ INFO {2}Server started\n$/
+    );
+  });
+
+  it('should drop messages below the configured level', () => {
+    const logger = createLogger({ level: 'warn', format: 'text' });
+    logger.debug('debug');
+    logger.info('info');
+    logger.warn('warn');
+    logger.error('error');
+
+    expect(stderr).toHaveBeenCalledTimes(2);
+  });
+
+  it('should write nothing when silent', () => {
+    const logger = createLogger({ level: 'silent', format: 'text' });
+    logger.error('error');
+
+    expect(stderr).not.toHaveBeenCalled();
+  });
+
+  it('should format JSON lines with serialized errors', () => {
+    const logger = createLogger({ level: 'debug', format: 'json' });
+    logger.error('Failed', new Error('boom'));
+
+    const entry = JSON.parse(String(stderr.mock.calls[0]![0]));
+    expect(entry).toMatchObject({
+      level: 'error',
+      message: 'Failed',
+      data: { name: 'Error', message: 'boom' },
+    });
+    expect(typeof entry.time).toBe('string');
+  });
+
+  it('should forward emitted entries', () => {
+    const logger = createLogger({ level: 'info', format: 'text' });
+    const forwarder = vi.fn();
+    logger.setForwarder(forwarder);
+
+    logger.debug('ignored');
+    logger.warn('Careful', { key: 'A' });
+
+    expect(forwarder).toHaveBeenCalledTimes(1);
+    expect(forwarder).toHaveBeenCalledWith('warn', 'Careful', { key: 'A' });
+  });
+
+  it('should append to a log file when configured', () => {
+    const file = join(__dirname, 'test.log');
+
+    try {
+      const logger = createLogger({ level: 'info', format: 'text', file });
+      logger.info('first');
+      logger.info('second');
+
+      expect(stderr).not.toHaveBeenCalled();
+      expect(readFileSync(file, 'utf-8').trim().split('\n')).toHaveLength(2);
+    } finally {
+      if (existsSync(file)) {
+        rmSync(file);
+      }
+    }
+  });
+
+  it('should report a log file that cannot be written', () => {
+    const file = join(__dirname, 'missing', 'test.log');
+
+    expect(() => createLogger({ level: 'info', format: 'text', file })).toThrow(
+      `Cannot write log file ${file}: ENOENT`
+    );
+  });
+
+  it('should fall back to stderr when writing the log file fails', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'rules-logger-'));
+    const file = join(dir, 'test.log');
+    const logger = createLogger({ level: 'info', format: 'text', file });
+    rmSync(dir, { recursive: true, force: true });
+
+    expect(() => {
+      logger.info('first');
+      logger.info('second');
+    }).not.toThrow();
+    const lines = stderr.mock.calls.map((call) => String(call[0]));
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toMatch(
+      `Cannot write log file ${file}, logging to stderr`
+    );
+    expect(lines[1]).toMatch(/INFO {2}first\n$/);
+    expect(lines[2]).toMatch(/INFO {2}second\n$/);
+  });
+
+  it('should validate log levels', () => {
+    expect(isLogLevel('debug')).toBe(true);
+    expect(isLogLevel('verbose')).toBe(false);
+  });
+});
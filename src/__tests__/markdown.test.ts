@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildSectionTree,
+  findSection,
+  formatTableOfContents,
+  splitSections,
+} from '../markdown';
+
+const document = [
+  'Intro text.',
+  '# Commit Messages',
+  '',
+  '## Format',
+  '',
+  '```',
+  '# not a heading',
+  '```',
+  '',
+  '### Scope',
+  '',
+  'Scope rules.',
+  '',
+  '## Examples',
+  '',
+  'Example text.',
+].join('\n');
+
+describe('Markdown Sections', () => {
+  it('should split a document into sections with heading paths', () => {
+    const sections = splitSections(document);
+
+    expect(sections.map((section) => section.headingPath)).toEqual([
+      [],
+      ['Commit Messages'],
+      ['Commit Messages', 'Format'],
+      ['Commit Messages', 'Format', 'Scope'],
+      ['Commit Messages', 'Examples'],
+    ]);
+    expect(sections[3]!.line).toBe(10);
+  });
+
+  it('should ignore headings inside code fences', () => {
+    const titles = splitSections(document).flatMap(
+      (section) => section.headingPath
+    );
+
+    expect(titles).not.toContain('not a heading');
+  });
+
+  it('should build a heading tree with nested section text', () => {
+    const tree = buildSectionTree(document);
+
+    expect(tree).toHaveLength(1);
+    expect(tree[0]!.children.map((node) => node.title)).toEqual([
+      'Format',
+      'Examples',
+    ]);
+
+    const format = tree[0]!.children[0]!;
+    expect(format.text).toContain('## Format');
+    expect(format.text).toContain('Scope rules.');
+    expect(format.text).not.toContain('Example text.');
+  });
+
+  it('should find sections by full or trailing heading path', () => {
+    const tree = buildSectionTree(document);
+
+    expect(findSection(tree, ['Format', 'Scope'])?.text).toBe(
+      '### Scope\n\nScope rules.\n'
+    );
+    expect(
+      findSection(tree, ['commit messages', 'format', 'scope'])?.title
+    ).toBe('Scope');
+    expect(findSection(tree, ['Examples', 'Scope'])).toBeUndefined();
+  });
+
+  it('should render a table of contents', () => {
+    expect(formatTableOfContents(buildSectionTree(document))).toEqual([
+      '- Commit Messages',
+      '  - Format',
+      '    - Scope',
+      '  - Examples',
+    ]);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createLogger } from '../logger';
+import { fillPromptArguments, findPromptArguments } from '../prompts';
+import { createRulesServer, type RulesServer } from '../server';
+
+describe('Prompt Arguments', () => {
+  const text =
+    'Reference {{ args.ticket }} in {{args.branch}} ({{ args.ticket }})';
+
+  it('should list argument placeholders in order of first use', () => {
+    expect(findPromptArguments(text)).toEqual(['ticket', 'branch']);
+    expect(findPromptArguments('{{ project }}')).toEqual([]);
+  });
+
+  it('should fill every placeholder', () => {
+    expect(fillPromptArguments(text, { ticket: 'ABC-1', branch: 'main' })).toBe(
+      'Reference ABC-1 in main (ABC-1)'
+    );
+  });
+
+  it('should reject missing arguments', () => {
+    expect(() => fillPromptArguments(text, { ticket: 'ABC-1' })).toThrow(
+      'Missing prompt arguments: branch'
+    );
+  });
+});
+
+describe('Rule Prompts', () => {
+  let tempDir: string;
+  let rulesServer: RulesServer | undefined;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'rules-prompts-'));
+    const write = (path: string, content: string) => {
+      mkdirSync(join(tempDir, 'rules', path, '..'), { recursive: true });
+      writeFileSync(join(tempDir, 'rules', path), content);
+    };
+    write('general/README.md', '# Basics\n\nKeep it simple.\n');
+    write(
+      'general/COMMITS.md',
+      '---\ndescription: Commit messages\n---\n# Commits\n\nReference {{ args.ticket }}.\n'
+    );
+    write('backend/API.md', '# API\n\nReturn JSON.\n');
+    write('backend/db/MIGRATIONS.md', '# Migrations\n\nOne change each.\n');
+  });
+
+  afterEach(async () => {
+    await rulesServer?.close();
+    rulesServer = undefined;
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const connect = async () => {
+    rulesServer = await createRulesServer({
+      rulesDirs: [join(tempDir, 'rules')],
+      prompts: {
+        backend: {
+          title: 'Backend',
+          rules: ['BACKEND/*', 'BACKEND-MISSING'],
+        },
+        // A bundle takes the place of the rule prompt of the same name
+        'GENERAL-OVERVIEW': {
+          rules: ['GENERAL-OVERVIEW', 'GENERAL-COMMITS'],
+          description: 'Basics and commits',
+        },
+      },
+      logger: createLogger({
+        level: 'warn',
+        format: 'text',
+        file: join(tempDir, 'server.log'),
+      }),
+    });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await rulesServer.connect(serverTransport);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+    return client;
+  };
+
+  it('should list rule prompts and bundles with their arguments', async () => {
+    const client = await connect();
+
+    const { prompts } = await client.listPrompts();
+    expect(prompts).toEqual([
+      {
+        name: 'backend',
+        title: 'Backend',
+        description: 'Project rules: BACKEND/*, BACKEND-MISSING',
+        arguments: [],
+      },
+      {
+        name: 'GENERAL-OVERVIEW',
+        title: 'GENERAL-OVERVIEW',
+        description: 'Basics and commits',
+        arguments: [{ name: 'ticket', required: true }],
+      },
+      expect.objectContaining({ name: 'BACKEND-API', title: 'Apply API' }),
+      expect.objectContaining({ name: 'BACKEND/DB-MIGRATIONS' }),
+      {
+        name: 'GENERAL-COMMITS',
+        title: 'Apply Commits',
+        description: 'Commit messages',
+        arguments: [{ name: 'ticket', required: true }],
+      },
+    ]);
+    expect(readFileSync(join(tempDir, 'server.log'), 'utf-8')).toContain(
+      'Prompt backend refers to unknown rule type BACKEND-MISSING'
+    );
+
+    await client.close();
+  });
+
+  it('should return bundles and fill in arguments', async () => {
+    const client = await connect();
+
+    const backend = await client.getPrompt({ name: 'backend' });
+    expect(backend.messages).toHaveLength(1);
+    const text = (backend.messages[0]!.content as { text: string }).text;
+    expect(text).toMatch(/^Apply the following project rules:/);
+    expect(text).toContain('# API\n\nReturn JSON.');
+    expect(text).toContain('# Migrations\n\nOne change each.');
+    expect(text).not.toContain('# Basics');
+
+    const overview = await client.getPrompt({
+      name: 'GENERAL-OVERVIEW',
+      arguments: { ticket: 'ABC-1' },
+    });
+    expect(overview.description).toBe('Basics and commits');
+    expect(overview.messages[0]!.content).toEqual({
+      type: 'text',
+      text: expect.stringContaining('Reference ABC-1.'),
+    });
+
+    await expect(client.getPrompt({ name: 'GENERAL-COMMITS' })).rejects.toThrow(
+      'Missing prompt arguments: ticket'
+    );
+    await expect(client.getPrompt({ name: 'UNKNOWN' })).rejects.toThrow(
+      'Unknown prompt: UNKNOWN'
+    );
+
+    await client.close();
+  });
+});
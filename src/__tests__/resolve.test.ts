@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { editDistance, matchRuleType } from '../resolve';
+
+describe('Rule Type Matching', () => {
+  const rules = {
+    'GENERAL-COMMIT-MESSAGES': { metadata: {} },
+    'GENERAL-OVERVIEW': { metadata: { aliases: ['readme', 'intro'] } },
+    'BACKEND/API-ERRORS': { metadata: {} },
+    'FRONTEND/API-ERRORS': { metadata: {} },
+  };
+
+  it('should match exact keys', () => {
+    expect(matchRuleType(rules, 'GENERAL-OVERVIEW')).toEqual({
+      status: 'found',
+      key: 'GENERAL-OVERVIEW',
+    });
+  });
+
+  it('should ignore case and separators', () => {
+    [
+      'general_commit_messages',
+      'General Commit Messages',
+      'generalcommitmessages',
+    ].forEach((ruleType) => {
+      expect(matchRuleType(rules, ruleType)).toEqual({
+        status: 'found',
+        key: 'GENERAL-COMMIT-MESSAGES',
+      });
+    });
+  });
+
+  it('should match a run of words of a key', () => {
+    ['COMMIT_MESSAGES', 'commit-messages', 'GENERAL-COMMIT'].forEach(
+      (ruleType) => {
+        expect(matchRuleType(rules, ruleType)).toEqual({
+          status: 'found',
+          key: 'GENERAL-COMMIT-MESSAGES',
+        });
+      }
+    );
+    expect(matchRuleType(rules, 'backend-api-errors')).toEqual({
+      status: 'found',
+      key: 'BACKEND/API-ERRORS',
+    });
+  });
+
+  it('should match aliases', () => {
+    expect(matchRuleType(rules, 'README')).toEqual({
+      status: 'found',
+      key: 'GENERAL-OVERVIEW',
+    });
+    expect(matchRuleType(rules, 'Intro')).toEqual({
+      status: 'found',
+      key: 'GENERAL-OVERVIEW',
+    });
+  });
+
+  it('should return the candidates of an ambiguous rule type', () => {
+    expect(matchRuleType(rules, 'api-errors')).toEqual({
+      status: 'ambiguous',
+      candidates: ['BACKEND/API-ERRORS', 'FRONTEND/API-ERRORS'],
+    });
+    expect(matchRuleType(rules, 'GENERAL')).toEqual({
+      status: 'ambiguous',
+      candidates: ['GENERAL-COMMIT-MESSAGES', 'GENERAL-OVERVIEW'],
+    });
+  });
+
+  it('should suggest the closest keys for an unknown rule type', () => {
+    expect(matchRuleType(rules, 'COMMIT-MESAGES')).toEqual({
+      status: 'unknown',
+      suggestions: [
+        'GENERAL-COMMIT-MESSAGES',
+        'BACKEND/API-ERRORS',
+        'FRONTEND/API-ERRORS',
+      ],
+    });
+    const match = matchRuleType(rules, 'OVERVEIW');
+    expect(match.status === 'unknown' && match.suggestions[0]).toBe(
+      'GENERAL-OVERVIEW'
+    );
+    expect(matchRuleType(rules, 'constructor').status).toBe('unknown');
+    expect(matchRuleType(rules, 'toString').status).toBe('unknown');
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(editDistance('', 'abc')).toBe(3);
+  });
+});
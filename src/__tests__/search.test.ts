@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { createSearchIndex, searchRules, tokenize } from '../search';
+
+const rules = [
+  {
+    key: 'GENERAL-COMMIT-MESSAGES',
+    content: [
+      '# Commit Messages',
+      '',
+      '## Format',
+      '',
+      'Use the type(scope): subject format.',
+      '',
+      '### Scope',
+      '',
+      'The scope names the affected package.',
+      '',
+      '## Breaking Changes',
+      '',
+      'Describe every breaking change in the footer.',
+    ].join('\n'),
+  },
+  {
+    key: 'GENERAL-OVERVIEW',
+    content: '# Overview\n\nConsistency and quality first.',
+  },
+];
+
+describe('Rule Search', () => {
+  it('should tokenize text into lowercase words', () => {
+    expect(tokenize('Hello, World! 커밋 메시지')).toEqual([
+      'hello',
+      'world',
+      '커밋',
+      '메시지',
+    ]);
+  });
+
+  it('should return matches with rule key and heading path', () => {
+    const index = createSearchIndex(rules);
+    const [match] = searchRules(index, 'scope package');
+
+    expect(match).toBeDefined();
+    expect(match!.key).toBe('GENERAL-COMMIT-MESSAGES');
+    expect(match!.headingPath).toEqual(['Commit Messages', 'Format', 'Scope']);
+    expect(match!.snippet).toContain('affected package');
+  });
+
+  it('should rank sections with more relevant hits first', () => {
+    const index = createSearchIndex(rules);
+    const matches = searchRules(index, 'breaking change');
+
+    expect(matches[0]!.headingPath).toEqual([
+      'Commit Messages',
+      'Breaking Changes',
+    ]);
+    matches.slice(1).forEach((match) => {
+      expect(match.score).toBeLessThanOrEqual(matches[0]!.score);
+    });
+  });
+
+  it('should respect the result limit', () => {
+    const index = createSearchIndex(rules);
+
+    expect(searchRules(index, 'the', 1)).toHaveLength(1);
+  });
+
+  it('should return no matches for unknown or empty queries', () => {
+    const index = createSearchIndex(rules);
+
+    expect(searchRules(index, 'kubernetes')).toEqual([]);
+    expect(searchRules(index, '  ')).toEqual([]);
+  });
+});
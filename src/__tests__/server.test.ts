@@ -0,0 +1,372 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  PromptListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+  ToolListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { existsSync, mkdirSync, rmSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { createRulesServer, loadRules, type RulesServer } from '../index';
+
+const __dirname = fileURLToPath(new URL('.', import.meta.url));
+
+describe('Library API', () => {
+  let baseDir: string;
+  let teamDir: string;
+  let rulesServer: RulesServer | undefined;
+
+  beforeEach(() => {
+    baseDir = join(__dirname, 'server-rules', 'base');
+    teamDir = join(__dirname, 'server-rules', 'team');
+    mkdirSync(join(baseDir, 'general'), { recursive: true });
+    mkdirSync(join(teamDir, 'general'), { recursive: true });
+
+    writeFileSync(
+      join(baseDir, 'general', 'README.md'),
+      '---\ndescription: Shared basics\n---\n# Basics\n\nKeep it simple.\n'
+    );
+    writeFileSync(
+      join(teamDir, 'general', 'README.md'),
+      '---\nmerge: append\n---\n## Team\n\nReview every change.\n'
+    );
+  });
+
+  afterEach(async () => {
+    await rulesServer?.close();
+    rulesServer = undefined;
+    const rulesDir = join(__dirname, 'server-rules');
+    if (existsSync(rulesDir)) {
+      rmSync(rulesDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should load and merge the rules of several layers', async () => {
+    const rules = await loadRules([baseDir, teamDir], {
+      logging: { level: 'silent' },
+    });
+
+    expect(Object.keys(rules)).toEqual(['GENERAL-OVERVIEW']);
+    expect(rules['GENERAL-OVERVIEW']).toMatchObject({
+      layers: [baseDir, teamDir],
+      metadata: { description: 'Shared basics', merge: 'append' },
+      content:
+        '# Basics\n\nKeep it simple.\n\n## Team\n\nReview every change.\n',
+    });
+  });
+
+  it('should serve the rules to an MCP client', async () => {
+    rulesServer = await createRulesServer({
+      rulesDirs: [baseDir],
+      toolNames: { get_project_rules: 'rules' },
+      logging: { level: 'silent' },
+    });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await rulesServer.connect(serverTransport);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toContain('rules');
+
+    const result = await client.callTool({
+      name: 'rules',
+      arguments: { rule_type: 'GENERAL-OVERVIEW' },
+    });
+    expect(result.content).toEqual([
+      {
+        type: 'text',
+        text: expect.stringContaining('# Basics\n\nKeep it simple.\n'),
+      },
+    ]);
+
+    const { resources } = await client.listResources();
+    expect(resources).toEqual([
+      {
+        uri: 'rules://GENERAL-OVERVIEW',
+        name: 'GENERAL-OVERVIEW',
+        description: 'Shared basics',
+        mimeType: 'text/markdown',
+      },
+    ]);
+
+    await client.close();
+  });
+
+  it('should resolve loose and ambiguous rule types', async () => {
+    mkdirSync(join(baseDir, 'backend'));
+    mkdirSync(join(baseDir, 'frontend'));
+    writeFileSync(join(baseDir, 'backend', 'ERRORS.md'), '# Backend errors\n');
+    writeFileSync(join(baseDir, 'frontend', 'ERRORS.md'), '# UI errors\n');
+    rulesServer = await createRulesServer({
+      rulesDirs: [baseDir],
+      logging: { level: 'silent' },
+    });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await rulesServer.connect(serverTransport);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+
+    const loose = await client.callTool({
+      name: 'get_project_rules',
+      arguments: { rule_type: 'backend_errors' },
+    });
+    expect(loose.content).toEqual([
+      { type: 'text', text: expect.stringContaining('# Backend errors\n') },
+    ]);
+
+    const ambiguous = await client.callTool({
+      name: 'get_project_rules',
+      arguments: { rule_type: 'errors' },
+    });
+    expect(ambiguous.content).toEqual([
+      {
+        type: 'text',
+        text: 'Rule type "errors" matches several rules. Ask for one of them:\n- BACKEND-ERRORS: Backend errors\n- FRONTEND-ERRORS: UI errors',
+      },
+    ]);
+
+    await expect(
+      client.callTool({
+        name: 'get_project_rules',
+        arguments: { rule_type: 'FRONTEND-EROR' },
+      })
+    ).rejects.toThrow(
+      'Unknown rule type: FRONTEND-EROR. Closest rule types: FRONTEND-ERRORS'
+    );
+    // Properties every object inherits are not rules
+    await expect(
+      client.callTool({
+        name: 'get_project_rules',
+        arguments: { rule_type: 'constructor' },
+      })
+    ).rejects.toThrow('Unknown rule type: constructor');
+    await expect(
+      client.callTool({
+        name: 'get_project_rules',
+        arguments: { rule_type: 5 },
+      })
+    ).rejects.toThrow('rule_type argument is required');
+
+    await client.close();
+  });
+
+  it('should return every rule of a subtree', async () => {
+    mkdirSync(join(baseDir, 'backend', 'api'), { recursive: true });
+    mkdirSync(join(baseDir, 'frontend'));
+    writeFileSync(join(baseDir, 'backend', 'ERRORS.md'), '# Backend errors\n');
+    writeFileSync(join(baseDir, 'backend', 'api', 'AUTH.md'), '# API auth\n');
+    writeFileSync(join(baseDir, 'frontend', 'ERRORS.md'), '# UI errors\n');
+    rulesServer = await createRulesServer({
+      rulesDirs: [baseDir],
+      logging: { level: 'silent' },
+    });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await rulesServer.connect(serverTransport);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+    const getText = async (ruleType: string) => {
+      const result = await client.callTool({
+        name: 'get_project_rules',
+        arguments: { rule_type: ruleType },
+      });
+      return (result.content as { text: string }[])[0]!.text;
+    };
+
+    const backend = await getText('BACKEND/*');
+    expect(backend).toContain('# Backend errors');
+    expect(backend).toContain('# API auth');
+    expect(backend).not.toContain('# UI errors');
+    expect(backend).not.toContain('# Basics');
+
+    const api = await getText('BACKEND/API/*');
+    expect(api).toContain('# API auth');
+    expect(api).not.toContain('# Backend errors');
+
+    await expect(getText('MOBILE/*')).rejects.toThrow(
+      'Unknown rule type: MOBILE/*'
+    );
+
+    await client.close();
+  });
+
+  it('should clamp search limits to positive whole numbers', async () => {
+    ['TABS', 'INDENT', 'FORMAT'].forEach((name) => {
+      writeFileSync(
+        join(baseDir, 'general', `${name}.md`),
+        `# ${name}\n\nUse tabs.\n`
+      );
+    });
+    rulesServer = await createRulesServer({
+      rulesDirs: [baseDir],
+      embeddings: { provider: 'bm25' },
+      logging: { level: 'silent' },
+    });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await rulesServer.connect(serverTransport);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+    const countMatches = async (name: string, limit: number) => {
+      const result = await client.callTool({
+        name,
+        arguments: { query: 'tabs', limit },
+      });
+      const { text } = (result.content as { text: string }[])[0]!;
+      return text.split('\n\n').length;
+    };
+
+    for (const name of ['search_project_rules', 'find_relevant_rules']) {
+      expect(await countMatches(name, -1)).toBe(3);
+      expect(await countMatches(name, 0)).toBe(3);
+      expect(await countMatches(name, 1.5)).toBe(1);
+      expect(await countMatches(name, 2)).toBe(2);
+    }
+
+    await client.close();
+  });
+
+  it('should encode resource URIs and track subscriptions', async () => {
+    const dir = join(baseDir, 'backend', 'api');
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, 'error handling.md'), '# Errors\n');
+    rulesServer = await createRulesServer({
+      rulesDirs: [baseDir],
+      logging: { level: 'silent' },
+    });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await rulesServer.connect(serverTransport);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+    const updates: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (n) => {
+      updates.push(n.params.uri);
+    });
+    // Edit the rule file and wait until the change is applied
+    const store = rulesServer.store;
+    const edit = async (content: string) => {
+      const changed = new Promise<void>((resolve) => {
+        const stop = store.onChange(() => {
+          stop();
+          resolve();
+        });
+      });
+      writeFileSync(join(dir, 'error handling.md'), content);
+      await changed;
+      await client.ping();
+    };
+
+    const uri = 'rules://BACKEND/API-ERROR%20HANDLING';
+    const { resources } = await client.listResources();
+    expect(resources.map((resource) => resource.uri)).toContain(uri);
+    expect(await client.readResource({ uri })).toEqual({
+      contents: [{ uri, mimeType: 'text/markdown', text: '# Errors\n' }],
+    });
+    await expect(
+      client.readResource({ uri: 'rules://BACKEND/API-ERROR%2' })
+    ).rejects.toThrow('Unknown resource');
+    await expect(
+      client.readResource({ uri: 'rules://constructor' })
+    ).rejects.toThrow('Unknown resource: rules://constructor');
+
+    await client.subscribeResource({ uri });
+    store.watch();
+    await edit('# Errors\n\nThrow typed errors.\n');
+    expect(updates).toEqual([uri]);
+
+    await client.unsubscribeResource({ uri });
+    await edit('# Errors\n\nReturn results.\n');
+    expect(updates).toEqual([uri]);
+
+    await client.close();
+  });
+
+  it('should notify clients of edited, added and removed rules', async () => {
+    writeFileSync(join(baseDir, 'general', 'STYLE.md'), '# Style\n');
+    writeFileSync(
+      join(baseDir, 'general', 'README.md'),
+      '# Basics\n\n{{ include "general/STYLE" }}\n'
+    );
+    rulesServer = await createRulesServer({
+      rulesDirs: [baseDir],
+      logging: { level: 'silent' },
+    });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await rulesServer.connect(serverTransport);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+
+    const notifications: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (n) => {
+      notifications.push(`${n.method} ${n.params.uri}`);
+    });
+    [
+      ToolListChangedNotificationSchema,
+      ResourceListChangedNotificationSchema,
+      PromptListChangedNotificationSchema,
+    ].forEach((schema) => {
+      client.setNotificationHandler(schema, (n) => {
+        notifications.push(n.method);
+      });
+    });
+    // Wait for a file change to be applied; a ping answered afterwards
+    // proves that no other notification follows
+    const nextNotifications = async (count: number) => {
+      await vi.waitFor(() => expect(notifications).toHaveLength(count), {
+        timeout: 5000,
+      });
+      await client.ping();
+      return notifications.splice(0).sort();
+    };
+
+    // Rules are loaded by the first request; changes before it are ignored
+    await client.listTools();
+    await client.subscribeResource({ uri: 'rules://GENERAL-STYLE' });
+    await client.subscribeResource({ uri: 'rules://GENERAL-OVERVIEW' });
+    rulesServer.store.watch();
+
+    // A content-only edit updates the rule and the rule including it
+    writeFileSync(join(baseDir, 'general', 'STYLE.md'), '# Style\n\nTabs.\n');
+    expect(await nextNotifications(2)).toEqual([
+      'notifications/resources/updated rules://GENERAL-OVERVIEW',
+      'notifications/resources/updated rules://GENERAL-STYLE',
+    ]);
+
+    writeFileSync(join(baseDir, 'general', 'NAMING.md'), '# Naming\n');
+    expect(await nextNotifications(3)).toEqual([
+      'notifications/prompts/list_changed',
+      'notifications/resources/list_changed',
+      'notifications/tools/list_changed',
+    ]);
+
+    unlinkSync(join(baseDir, 'general', 'NAMING.md'));
+    expect(await nextNotifications(3)).toEqual([
+      'notifications/prompts/list_changed',
+      'notifications/resources/list_changed',
+      'notifications/tools/list_changed',
+    ]);
+
+    await client.close();
+  });
+
+  it('should reject invalid options', async () => {
+    await expect(
+      createRulesServer({
+        cacheTtl: -1,
+        loaders: { '*.rst': 'restructured' },
+        logging: { level: 'silent' },
+      })
+    ).rejects.toThrow('"cacheTtl" must be an integer of at least 0');
+    await expect(loadRules(join(baseDir, 'missing'))).rejects.toThrow(
+      'Rules directory not found'
+    );
+  });
+});
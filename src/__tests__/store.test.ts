@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  mkdirSync,
+  mkdtempSync,
+  renameSync,
+  rmSync,
+  unlinkSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createRuleStore, type RuleChange, type RuleStore } from '../store';
+
+describe('Rule Store', () => {
+  let rulesDir: string;
+  let store: RuleStore | undefined;
+
+  beforeEach(() => {
+    rulesDir = mkdtempSync(join(tmpdir(), 'rules-store-'));
+    mkdirSync(join(rulesDir, 'general'));
+  });
+
+  afterEach(() => {
+    store?.close();
+    store = undefined;
+    rmSync(rulesDir, { recursive: true, force: true });
+  });
+
+  const write = (file: string, content: string) =>
+    writeFileSync(join(rulesDir, 'general', file), content);
+
+  // Start watching a store whose rules are loaded, returning the changes
+  // it reports
+  const watchStore = async () => {
+    store = await createRuleStore({
+      rulesDirs: [rulesDir],
+      logging: { level: 'silent' },
+    });
+    await store.getRules();
+    const changes: RuleChange[] = [];
+    store.onChange((change) => {
+      changes.push({ ...change, updated: [...change.updated].sort() });
+    });
+    store.watch();
+    return changes;
+  };
+
+  const waitForChange = async (changes: RuleChange[]) => {
+    await vi.waitFor(() => expect(changes).toHaveLength(1), { timeout: 5000 });
+    // Longer than the debounce window: no other change follows
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    return changes;
+  };
+
+  it('should apply every change of one debounce window at once', async () => {
+    write('EDITED.md', '# Edited\n');
+    write('REMOVED.md', '# Removed\n');
+    write('OLD.md', '# Renamed\n');
+    write('KEPT.md', '# Kept\n');
+    const changes = await watchStore();
+
+    write('EDITED.md', '# Edited\n\nNew content.\n');
+    write('ADDED.md', '# Added\n');
+    unlinkSync(join(rulesDir, 'general', 'REMOVED.md'));
+    renameSync(
+      join(rulesDir, 'general', 'OLD.md'),
+      join(rulesDir, 'general', 'NEW.md')
+    );
+
+    expect(await waitForChange(changes)).toEqual([
+      {
+        updated: [
+          'GENERAL-ADDED',
+          'GENERAL-EDITED',
+          'GENERAL-NEW',
+          'GENERAL-OLD',
+          'GENERAL-REMOVED',
+        ],
+        listChanged: true,
+      },
+    ]);
+
+    const rules = await store!.getRules();
+    expect(Object.keys(rules).sort()).toEqual([
+      'GENERAL-ADDED',
+      'GENERAL-EDITED',
+      'GENERAL-KEPT',
+      'GENERAL-NEW',
+    ]);
+    expect(rules['GENERAL-EDITED']?.content).toBe('# Edited\n\nNew content.\n');
+    expect(rules['GENERAL-NEW']?.content).toBe('# Renamed\n');
+  });
+
+  it('should update the rules that include an edited rule', async () => {
+    write('STYLE.md', '# Style\n');
+    write('README.md', '# Basics\n\n{{ include "general/STYLE" }}\n');
+    const changes = await watchStore();
+
+    write('STYLE.md', '# Style\n\nUse tabs.\n');
+
+    expect(await waitForChange(changes)).toEqual([
+      { updated: ['GENERAL-OVERVIEW', 'GENERAL-STYLE'], listChanged: false },
+    ]);
+    expect((await store!.getRules())['GENERAL-OVERVIEW']?.content).toBe(
+      '# Basics\n\n# Style\n\nUse tabs.\n'
+    );
+  });
+
+  it('should include rules in other formats by file name', async () => {
+    write('SETUP.mdx', '# Setup\n\nRun pnpm install.\n');
+    write('README.md', '# Basics\n\n{{ include "general/setup.mdx" }}\n');
+    store = await createRuleStore({
+      rulesDirs: [rulesDir],
+      logging: { level: 'silent' },
+    });
+
+    expect((await store.getRules())['GENERAL-OVERVIEW']?.content).toBe(
+      '# Basics\n\n# Setup\n\nRun pnpm install.\n'
+    );
+    expect(await store.lint()).toEqual([]);
+  });
+
+  it('should report template errors on the line of their directive', async () => {
+    write('README.md', '# Basics\n\n{{ include "general/MISSING" }}\n');
+    store = await createRuleStore({
+      rulesDirs: [rulesDir],
+      logging: { level: 'silent' },
+    });
+
+    expect(await store.lint()).toEqual([
+      {
+        file: join(rulesDir, 'general', 'README.md'),
+        line: 3,
+        severity: 'error',
+        message: 'Included rule not found: general/MISSING',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findDependents,
+  parseVariables,
+  renderTemplates,
+  toIncludeKey,
+  variablesFromEnv,
+} from '../template';
+
+describe('Rule Templates', () => {
+  it('should convert include targets to rule keys', () => {
+    expect(toIncludeKey('general/README')).toBe('GENERAL-OVERVIEW');
+    expect(toIncludeKey('./backend/api/errors.md')).toBe('BACKEND/API-ERRORS');
+    expect(toIncludeKey('STYLE')).toBe('STYLE');
+    expect(toIncludeKey('general/README', 'path')).toBe('GENERAL/README');
+    // Any supported format, not only markdown
+    expect(toIncludeKey('general/setup.mdx')).toBe('GENERAL-SETUP');
+    expect(toIncludeKey('general/notes.txt')).toBe('GENERAL-NOTES');
+    expect(toIncludeKey('docs/guide.adoc')).toBe('DOCS-GUIDE');
+    expect(toIncludeKey('general/node.js')).toBe('GENERAL-NODE.JS');
+  });
+
+  it('should substitute variables outside code fences', () => {
+    const result = renderTemplates(
+      {
+        SETUP: 'Use Node {{ node_version }}.\n```\n{{ node_version }}\n```',
+      },
+      { node_version: '20' }
+    );
+
+    expect(result.contents.SETUP).toBe(
+      'Use Node 20.\n```\n{{ node_version }}\n```'
+    );
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should resolve nested includes and track dependencies', () => {
+    const result = renderTemplates(
+      {
+        'GENERAL-OVERVIEW': '# {{ project }}\n',
+        'GENERAL-SETUP': '{{ include "general/README" }}\nSetup',
+        'BACKEND-API': "{{ include 'general/SETUP' }}\nAPI",
+      },
+      { project: 'Acme' }
+    );
+
+    expect(result.contents['BACKEND-API']).toBe('# Acme\nSetup\nAPI');
+    expect(result.dependencies['BACKEND-API']).toEqual([
+      'GENERAL-SETUP',
+      'GENERAL-OVERVIEW',
+    ]);
+    expect(findDependents(result.dependencies).get('GENERAL-OVERVIEW')).toEqual(
+      new Set(['GENERAL-SETUP', 'BACKEND-API'])
+    );
+  });
+
+  it('should report include cycles and leave the directive in place', () => {
+    const result = renderTemplates(
+      {
+        A: 'A {{ include "B" }}',
+        B: 'B {{ include "A" }}',
+      },
+      {}
+    );
+
+    expect(result.contents.A).toBe('A B {{ include "A" }}');
+    expect(result.errors).toEqual([
+      {
+        key: 'B',
+        directive: '{{ include "A" }}',
+        severity: 'error',
+        message: 'Include cycle: A -> B -> A',
+      },
+    ]);
+  });
+
+  it('should report missing includes and unknown variables', () => {
+    const result = renderTemplates(
+      { A: '{{ include "missing" }} {{ unknown }}' },
+      {}
+    );
+
+    expect(result.contents.A).toBe('{{ include "missing" }} {{ unknown }}');
+    expect(result.errors.map((error) => error.message)).toEqual([
+      'Included rule not found: missing',
+      'Unknown template variable: unknown',
+    ]);
+  });
+
+  it('should leave prompt arguments for prompts/get', () => {
+    const result = renderTemplates({ A: 'Ticket {{ args.ticket }}' }, {});
+
+    expect(result.contents.A).toBe('Ticket {{ args.ticket }}');
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should read variables from files and the environment', () => {
+    expect(parseVariables('project: Acme\nnode_version: 20\n')).toEqual({
+      project: 'Acme',
+      node_version: '20',
+    });
+    expect(() => parseVariables('- a\n- b\n')).toThrow(/mapping/);
+    expect(
+      variablesFromEnv({ MCP_VAR_NODE_VERSION: '20', MCP_PORT: '3000' })
+    ).toEqual({ node_version: '20' });
+  });
+});
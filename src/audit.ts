@@ -0,0 +1,211 @@
+// Audit log of tool calls: one JSON line per call, appended to a local file
+import { appendFileSync } from 'fs';
+import { readFile } from 'fs/promises';
+import type { Logger } from './logger.js';
+
+export interface AuditEntry {
+  time: string;
+  // Client name and version reported on initialize
+  client?: { name: string; version: string };
+  tool: string;
+  arguments: Record<string, unknown>;
+  // Rule keys the response contained
+  keys: string[];
+  // Characters of text returned (0 for errors)
+  size: number;
+  error?: string;
+}
+
+export interface AuditLog {
+  record(entry: AuditEntry): void;
+}
+
+export interface ToolStats {
+  tool: string;
+  calls: number;
+  errors: number;
+  averageSize: number;
+  maxSize: number;
+}
+
+export interface AuditStats {
+  calls: number;
+  errors: number;
+  first?: string;
+  last?: string;
+  tools: ToolStats[];
+  // Current rules by number of responses they appeared in, most used first
+  rules: { key: string; count: number }[];
+  // Requested rule types that did not exist, most requested first
+  misses: { ruleType: string; count: number }[];
+}
+
+// Create an audit log appending to a file. Write failures are logged but
+// never fail the tool call being recorded
+export function createAuditLog(file: string, logger: Logger): AuditLog {
+  return {
+    record(entry) {
+      try {
+        appendFileSync(file, `${JSON.stringify(entry)}\n`);
+      } catch (error) {
+        logger.warn(`Failed to write audit log ${file}`, error);
+      }
+    },
+  };
+}
+
+// Read the entries of an audit log, skipping lines that are not valid JSON
+// (e.g. a line cut short by a crash)
+export async function readAuditLog(file: string): Promise<AuditEntry[]> {
+  const source = await readFile(file, 'utf-8');
+
+  return source.split('\n').flatMap((line) => {
+    if (!line.trim()) {
+      return [];
+    }
+    try {
+      return [JSON.parse(line) as AuditEntry];
+    } catch {
+      return [];
+    }
+  });
+}
+
+function countBy<T>(items: T[], keyOf: (item: T) => string) {
+  const counts = new Map<string, number>();
+  items.forEach((item) => {
+    const key = keyOf(item);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  return counts;
+}
+
+// Sort counts by count (descending), then by name
+function sortCounts(counts: Map<string, number>): [string, number][] {
+  return [...counts].sort(
+    ([a, x], [b, y]) => y - x || (a < b ? -1 : a > b ? 1 : 0)
+  );
+}
+
+// Summarize an audit log; ruleKeys are the current rules, so rules that were
+// never returned show up with a count of 0
+export function summarizeAuditLog(
+  entries: AuditEntry[],
+  ruleKeys: string[]
+): AuditStats {
+  const ruleCounts = new Map(ruleKeys.map((key) => [key, 0]));
+  entries.forEach((entry) => {
+    new Set(entry.keys).forEach((key) => {
+      const count = ruleCounts.get(key);
+      if (count !== undefined) {
+        ruleCounts.set(key, count + 1);
+      }
+    });
+  });
+
+  const misses = countBy(
+    entries.filter(
+      (entry) =>
+        entry.error?.startsWith('Unknown rule type') &&
+        typeof entry.arguments.rule_type === 'string'
+    ),
+    (entry) => entry.arguments.rule_type as string
+  );
+
+  const tools = sortCounts(countBy(entries, (entry) => entry.tool)).map(
+    ([tool, calls]) => {
+      const toolEntries = entries.filter((entry) => entry.tool === tool);
+      const sizes = toolEntries
+        .filter((entry) => !entry.error)
+        .map((entry) => entry.size);
+      return {
+        tool,
+        calls,
+        errors: calls - sizes.length,
+        averageSize: Math.round(
+          sizes.reduce((total, size) => total + size, 0) /
+            Math.max(sizes.length, 1)
+        ),
+        maxSize: Math.max(0, ...sizes),
+      };
+    }
+  );
+
+  // Calls are logged as they finish, so the times are not quite in order
+  const times = entries.map((entry) => entry.time).sort();
+
+  return {
+    calls: entries.length,
+    errors: entries.filter((entry) => entry.error).length,
+    ...(times.length > 0
+      ? { first: times[0]!, last: times[times.length - 1]! }
+      : {}),
+    tools,
+    rules: sortCounts(ruleCounts).map(([key, count]) => ({ key, count })),
+    misses: sortCounts(misses).map(([ruleType, count]) => ({
+      ruleType,
+      count,
+    })),
+  };
+}
+
+// Render audit statistics for the terminal, listing at most `limit` rules
+// in the most and least used lists
+export function formatAuditStats(stats: AuditStats, limit = 10): string {
+  const table = (rows: [string, string][]) => {
+    const width = Math.max(...rows.map(([name]) => name.length));
+    return rows.map(([name, value]) => `  ${name.padEnd(width)}  ${value}`);
+  };
+  const lines = [
+    stats.first && stats.last
+      ? `${stats.calls} tool call(s), ${stats.errors} error(s) from ${stats.first} to ${stats.last}`
+      : 'No tool calls recorded',
+  ];
+
+  if (stats.tools.length > 0) {
+    lines.push(
+      '',
+      'Tools:',
+      ...table(
+        stats.tools.map((tool) => [
+          tool.tool,
+          `${tool.calls} call(s), ${tool.errors} error(s), ${tool.averageSize} chars on average, ${tool.maxSize} at most`,
+        ])
+      )
+    );
+  }
+
+  const used = stats.rules.filter((rule) => rule.count > 0);
+  if (used.length > 0) {
+    lines.push(
+      '',
+      'Most used rules:',
+      ...table(
+        used.slice(0, limit).map((rule) => [rule.key, String(rule.count)])
+      )
+    );
+  }
+
+  if (stats.rules.length > 0) {
+    lines.push(
+      '',
+      'Least used rules:',
+      ...table(
+        [...stats.rules]
+          .sort((a, b) => a.count - b.count)
+          .slice(0, limit)
+          .map((rule) => [rule.key, String(rule.count)])
+      )
+    );
+  }
+
+  if (stats.misses.length > 0) {
+    lines.push(
+      '',
+      'Unknown rule types:',
+      ...table(stats.misses.map((miss) => [miss.ruleType, String(miss.count)]))
+    );
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,100 @@
+// Fitting several rules into a size-limited response
+
+export interface BudgetItem {
+  key: string;
+  // Full rendering of the rule
+  full: string;
+  // Shorter fallback (description and headings) used when the full rule does not fit
+  summary: string;
+  priority: number;
+}
+
+export interface BudgetResult {
+  text: string;
+  included: string[];
+  summarized: string[];
+  omitted: string[];
+}
+
+// Rough token estimate used to convert a max_tokens budget into characters
+export const CHARS_PER_TOKEN = 4;
+
+const SEPARATOR = '\n\n---\n\n';
+
+function renderItem(key: string, body: string): string {
+  return `## ${key}\n\n${body}`;
+}
+
+function renderNote(summarized: string[], omitted: string[]): string {
+  const lines: string[] = [];
+  if (summarized.length > 0) {
+    lines.push(`Summarized to fit the budget: ${summarized.join(', ')}`);
+  }
+  if (omitted.length > 0) {
+    lines.push(`Omitted to fit the budget: ${omitted.join(', ')}`);
+  }
+
+  return lines.length > 0
+    ? `> ${lines.join('\n> ')}\n> Request these rule types individually for the full content.`
+    : '';
+}
+
+// Fill the budget by priority (highest first, ties keep their order),
+// falling back to summaries and finally leaving rules out
+export function fitToBudget(
+  items: BudgetItem[],
+  maxChars: number
+): BudgetResult {
+  const ordered = items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => b.item.priority - a.item.priority || a.index - b.index)
+    .map(({ item }) => item);
+
+  // Reserve room for the worst-case note so the whole response stays in budget
+  const reserve =
+    renderNote(
+      ['…'],
+      ordered.map((item) => item.key)
+    ).length + SEPARATOR.length;
+  const available = Math.max(0, maxChars - reserve);
+
+  const parts: string[] = [];
+  const result: BudgetResult = {
+    text: '',
+    included: [],
+    summarized: [],
+    omitted: [],
+  };
+  let used = 0;
+
+  ordered.forEach((item) => {
+    const cost = (text: string) =>
+      text.length + (parts.length > 0 ? SEPARATOR.length : 0);
+    const full = renderItem(item.key, item.full);
+    const summary = renderItem(item.key, item.summary);
+
+    if (used + cost(full) <= available) {
+      used += cost(full);
+      parts.push(full);
+      result.included.push(item.key);
+    } else if (used + cost(summary) <= available) {
+      used += cost(summary);
+      parts.push(summary);
+      result.summarized.push(item.key);
+    } else {
+      result.omitted.push(item.key);
+    }
+  });
+
+  const note = renderNote(result.summarized, result.omitted);
+  result.text = [...parts, ...(note ? [note] : [])].join(SEPARATOR);
+
+  // A budget smaller than the note has no room for any rule; say so in as
+  // much of a short notice as fits
+  if (result.text.length > maxChars) {
+    const notice = `> The budget is too small for ${result.omitted.length} rule(s). Request fewer rule types or a larger budget.`;
+    result.text = notice.slice(0, maxChars);
+  }
+
+  return result;
+}
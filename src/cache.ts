@@ -0,0 +1,200 @@
+// Incremental cache of parsed rule files
+import { readdir, readFile, stat } from 'fs/promises';
+import { join, sep } from 'path';
+import type { RuleMetadata } from './frontmatter.js';
+import { isPathSelected } from './glob.js';
+import { BUILTIN_LOADERS, findLoader, type RuleLoader } from './loaders.js';
+
+// A parsed rule file, reused while its modification time and size are unchanged
+export interface RuleFile {
+  rulesDir: string;
+  filePath: string;
+  // Directory names between the rules root and the file
+  directories: string[];
+  file: string;
+  mtimeMs: number;
+  size: number;
+  metadata: RuleMetadata;
+  body: string;
+  // Problems found when the file was loaded (e.g. invalid front matter)
+  errors: string[];
+}
+
+// Parsed rule files keyed by file path
+export type RuleFileCache = Map<string, RuleFile>;
+
+export interface RuleFileFilter {
+  include: string[];
+  exclude: string[];
+  // Loaders for the supported formats (default: the built-in loaders)
+  loaders?: RuleLoader[];
+}
+
+// Rule files that were (re)read or dropped by a refresh
+export interface RefreshResult {
+  read: RuleFile[];
+  removed: RuleFile[];
+}
+
+// Files are stat'ed and read in batches to bound the number of open handles
+const BATCH_SIZE = 32;
+
+// Check whether a path relative to a rules directory is a selected file in
+// a supported format, outside hidden directories
+export function isRuleFile(relativePath: string, filter: RuleFileFilter) {
+  const segments = relativePath.split(sep);
+  const file = segments.pop()!;
+  return (
+    !segments.some((segment) => segment.startsWith('.')) &&
+    findLoader(filter.loaders ?? BUILTIN_LOADERS, file) !== undefined &&
+    isPathSelected(
+      [...segments, file].join('/'),
+      filter.include,
+      filter.exclude
+    )
+  );
+}
+
+// List the selected rule files below a rules directory (relative paths).
+// Unreadable subdirectories are reported and skipped
+export async function listRuleFiles(
+  rulesDir: string,
+  filter: RuleFileFilter,
+  onError?: (dir: string, error: unknown) => void,
+  directories: string[] = []
+): Promise<string[]> {
+  const dir = join(rulesDir, ...directories);
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    const relativePath = join(...directories, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name.startsWith('.')) {
+        continue;
+      }
+      try {
+        files.push(
+          ...(await listRuleFiles(rulesDir, filter, onError, [
+            ...directories,
+            entry.name,
+          ]))
+        );
+      } catch (error) {
+        onError?.(join(dir, entry.name), error);
+      }
+    } else if (isRuleFile(relativePath, filter)) {
+      files.push(relativePath);
+    }
+  }
+
+  return files;
+}
+
+// Bring the cache entry of one file up to date, reading it only when its
+// modification time or size changed
+export async function refreshRuleFile(
+  cache: RuleFileCache,
+  rulesDir: string,
+  relativePath: string,
+  result: RefreshResult = { read: [], removed: [] },
+  loaders: RuleLoader[] = BUILTIN_LOADERS
+): Promise<RefreshResult> {
+  const filePath = join(rulesDir, relativePath);
+  const cached = cache.get(filePath);
+
+  let stats;
+  try {
+    stats = await stat(filePath);
+  } catch {
+    stats = undefined;
+  }
+
+  if (!stats?.isFile()) {
+    if (cached) {
+      cache.delete(filePath);
+      result.removed.push(cached);
+    }
+    return result;
+  }
+
+  if (cached?.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+    return result;
+  }
+
+  const directories = relativePath.split(sep);
+  const file = directories.pop()!;
+  const loader = findLoader(loaders, file);
+  if (!loader) {
+    return result;
+  }
+
+  const { metadata, body, errors } = loader.load(
+    await readFile(filePath, 'utf-8'),
+    filePath
+  );
+  const ruleFile: RuleFile = {
+    rulesDir,
+    filePath,
+    directories,
+    file,
+    mtimeMs: stats.mtimeMs,
+    size: stats.size,
+    metadata,
+    body,
+    errors,
+  };
+
+  cache.set(filePath, ruleFile);
+  result.read.push(ruleFile);
+  return result;
+}
+
+// Bring every cache entry of a rules directory up to date, dropping files
+// that no longer exist
+export async function refreshRulesDir(
+  cache: RuleFileCache,
+  rulesDir: string,
+  filter: RuleFileFilter,
+  onError?: (dir: string, error: unknown) => void
+): Promise<RefreshResult> {
+  const result: RefreshResult = { read: [], removed: [] };
+  const files = await listRuleFiles(rulesDir, filter, onError);
+
+  for (let i = 0; i < files.length; i += BATCH_SIZE) {
+    await Promise.all(
+      files
+        .slice(i, i + BATCH_SIZE)
+        .map((file) =>
+          refreshRuleFile(cache, rulesDir, file, result, filter.loaders)
+        )
+    );
+  }
+
+  const listed = new Set(files.map((file) => join(rulesDir, file)));
+  cache.forEach((ruleFile, filePath) => {
+    if (ruleFile.rulesDir === rulesDir && !listed.has(filePath)) {
+      cache.delete(filePath);
+      result.removed.push(ruleFile);
+    }
+  });
+
+  return result;
+}
+
+// Remove every cache entry of a rules directory (e.g. when it was deleted)
+export function clearRulesDir(
+  cache: RuleFileCache,
+  rulesDir: string
+): RefreshResult {
+  const result: RefreshResult = { read: [], removed: [] };
+
+  cache.forEach((ruleFile, filePath) => {
+    if (ruleFile.rulesDir === rulesDir) {
+      cache.delete(filePath);
+      result.removed.push(ruleFile);
+    }
+  });
+
+  return result;
+}
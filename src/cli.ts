@@ -0,0 +1,616 @@
+#!/usr/bin/env node
+
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { existsSync } from 'fs';
+import { delimiter } from 'path';
+import { createInterface } from 'readline';
+import { formatAuditStats, readAuditLog, summarizeAuditLog } from './audit.js';
+import {
+  checkToolNames,
+  CONFIG_FILE_NAMES,
+  configFromEnv,
+  findConfigFile,
+  loadConfigFile,
+  mergeConfig,
+  redactConfig,
+  toNumber,
+  validateConfig,
+  type PartialConfig,
+  type RulesConfig,
+} from './config.js';
+import {
+  EXPORT_FORMATS,
+  exportRules,
+  syncExportedFiles,
+  type ExportFormat,
+} from './export.js';
+import { startHttpServer } from './http.js';
+import { formatDiagnostic } from './lint.js';
+import { createLogger } from './logger.js';
+import { createRulesServer } from './server.js';
+import { describeRule, type RuleStore } from './store.js';
+
+// Parse command line arguments; configuration flags are returned as a config
+// layer that overrides the environment and the config file
+function parseArguments() {
+  const args = process.argv.slice(2);
+  const options = {
+    command: 'serve' as 'serve' | 'lint' | 'export' | 'stats',
+    watch: false,
+    keyboard: false,
+    help: false,
+    printConfig: false,
+    configFile: undefined as string | undefined,
+    exportFormats: [] as string[],
+    outDir: '.',
+    check: false,
+  };
+  const overrides = {
+    rulesDirs: undefined as string[] | undefined,
+    discover: undefined as string[] | undefined,
+    varsFile: undefined as string | undefined,
+    locales: undefined as string[] | undefined,
+    locale: undefined as string | undefined,
+    auditLog: undefined as string | undefined,
+    transport: {} as Record<string, string | string[] | number | undefined>,
+    logging: {} as Record<string, string | undefined>,
+    embeddings: {} as Record<string, string | undefined>,
+  };
+  let i = 0;
+
+  // Read the value following a flag, exiting when it is missing
+  const readValue = (flag: string, description: string): string => {
+    const nextArg = args[i + 1];
+    if (!nextArg || nextArg.startsWith('-')) {
+      console.error(`Error: ${flag} requires ${description}`);
+      process.exit(1);
+    }
+    i++; // Skip next argument as it's the flag value
+    return nextArg;
+  };
+
+  for (; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case 'lint':
+        options.command = 'lint';
+        break;
+      case 'export':
+      case 'build':
+        options.command = 'export';
+        break;
+      case 'stats':
+        options.command = 'stats';
+        break;
+      case '--format':
+      case '-f':
+        // Repeated flags and comma-separated lists add formats
+        options.exportFormats.push(
+          ...readValue('--format', 'an export format').split(',')
+        );
+        break;
+      case '--out':
+      case '-o':
+        options.outDir = readValue('--out', 'a directory path');
+        break;
+      case '--check':
+        options.check = true;
+        break;
+      case '--watch':
+      case '-w':
+        options.watch = true;
+        break;
+      case '--keyboard':
+      case '-k':
+        options.keyboard = true;
+        break;
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+      case '--config':
+      case '-c':
+        options.configFile = readValue('--config', 'a file path');
+        break;
+      case '--print-config':
+        options.printConfig = true;
+        break;
+      case '--rules-dir':
+      case '-r':
+        // Repeated flags add layers
+        overrides.rulesDirs = [
+          ...(overrides.rulesDirs ?? []),
+          readValue('--rules-dir', 'a directory path'),
+        ];
+        break;
+      case '--discover':
+        overrides.discover = [
+          ...(overrides.discover ?? []),
+          readValue('--discover', 'a repository path'),
+        ];
+        break;
+      case '--log-level':
+        overrides.logging.level = readValue('--log-level', 'a level');
+        break;
+      case '--log-format':
+        overrides.logging.format = readValue(
+          '--log-format',
+          'a format (text or json)'
+        );
+        break;
+      case '--log-file':
+        overrides.logging.file = readValue('--log-file', 'a file path');
+        break;
+      case '--transport':
+        overrides.transport.type = readValue(
+          '--transport',
+          'a transport (stdio or http)'
+        );
+        break;
+      case '--host':
+        overrides.transport.host = readValue(
+          '--host',
+          'a host name or address'
+        );
+        break;
+      case '--port':
+      case '-p':
+        overrides.transport.port = toNumber(
+          readValue('--port', 'a port number')
+        );
+        break;
+      case '--auth-token':
+        overrides.transport.authToken = readValue('--auth-token', 'a token');
+        break;
+      case '--allowed-hosts':
+        overrides.transport.allowedHosts = readValue(
+          '--allowed-hosts',
+          'a list of host names'
+        ).split(',');
+        break;
+      case '--allowed-origins':
+        overrides.transport.allowedOrigins = readValue(
+          '--allowed-origins',
+          'a list of origins'
+        ).split(',');
+        break;
+      case '--vars-file':
+        overrides.varsFile = readValue('--vars-file', 'a file path');
+        break;
+      case '--locales':
+        // Repeated flags and comma-separated lists add locales
+        overrides.locales = [
+          ...(overrides.locales ?? []),
+          ...readValue('--locales', 'a list of locales such as ko,ja').split(
+            ','
+          ),
+        ];
+        break;
+      case '--locale':
+        overrides.locale = readValue('--locale', 'a locale such as ko');
+        break;
+      case '--audit-log':
+        overrides.auditLog = readValue('--audit-log', 'a file path');
+        break;
+      case '--embeddings':
+        overrides.embeddings.provider = readValue(
+          '--embeddings',
+          'a provider (hashing, bm25 or a module path)'
+        );
+        break;
+      case '--embeddings-index':
+        overrides.embeddings.indexFile = readValue(
+          '--embeddings-index',
+          'a file path'
+        );
+        break;
+    }
+  }
+
+  return { ...options, overrides };
+}
+
+// Resolve the configuration from the config file, environment and command
+// line (in increasing precedence), exiting with every problem found
+function loadConfig(
+  configFile: string | undefined,
+  overrides: unknown
+): { config: RulesConfig; file: string | undefined } {
+  const file =
+    configFile ?? (process.env.MCP_CONFIG || findConfigFile(process.cwd()));
+  const layers: PartialConfig[] = [];
+  const errors: string[] = [];
+
+  const addLayer = (
+    source: string,
+    result: { config: PartialConfig; errors: string[] }
+  ) => {
+    layers.push(result.config);
+    errors.push(...result.errors.map((message) => `${source}: ${message}`));
+  };
+
+  if (file) {
+    addLayer(file, loadConfigFile(file));
+  }
+  addLayer('environment', validateConfig(configFromEnv()));
+  addLayer('command line', validateConfig(overrides));
+
+  const config = mergeConfig(...layers);
+  errors.push(...checkToolNames(config));
+
+  if (errors.length > 0) {
+    errors.forEach((message) => console.error(`Error: ${message}`));
+    process.exit(1);
+  }
+
+  return { config, file };
+}
+
+// Show help message
+function showHelp() {
+  console.log(`
+Usage: node dist/cli.js [options]
+       node dist/cli.js lint [options]
+       node dist/cli.js export --format <format> [options]
+       node dist/cli.js stats --audit-log <path> [options]
+
+Commands:
+  lint                     Check rule files for broken links, empty sections,
+                           duplicate keys, invalid front matter and
+                           unresolved templates, then exit
+  export, build            Write the merged rules as files for other tools,
+                           then exit
+  stats                    Summarize the audit log: tool calls, most and least
+                           used rules, unknown rule types and response sizes
+
+Export options:
+  -f, --format <format>    ${EXPORT_FORMATS.join(', ')} (repeat or
+                           separate with commas for several formats)
+  -o, --out <dir>          Directory to write to (default: current directory)
+      --check              Write nothing; exit with 1 when the exported files
+                           are out of date (for CI)
+
+Options:
+  -w, --watch              Enable file watching for rule changes
+  -k, --keyboard           Enable keyboard interface (q=quit, r=restart)
+  -c, --config <path>      Config file (default: first ${CONFIG_FILE_NAMES.join(', ')}
+                           found in the current directory or its parents)
+      --print-config       Print the resolved configuration and exit
+  -r, --rules-dir <path>   Specify custom rules directory path (repeat to layer
+                           directories; later layers override earlier ones)
+      --discover <repo>    Also serve the agent rule files of a code repository
+                           (CLAUDE.md, AGENTS.md, .cursor/rules, Copilot
+                           instructions, ...) under namespaced keys
+      --vars-file <path>   JSON or YAML file with {{ variable }} values for rules
+      --locales <list>     Locales of translated rule files, e.g. ko,ja: with ko,
+                           COMMIT-MESSAGES.ko.md translates COMMIT-MESSAGES.md
+      --locale <locale>    Serve translations such as COMMIT-MESSAGES.ko.md by
+                           default (falls back to the untranslated file)
+      --log-level <level>  Log level: debug, info, warn, error or silent (default info)
+      --log-format <fmt>   Log format: text or json (default text)
+      --log-file <path>    Append logs to a file instead of stderr
+      --audit-log <path>   Append every tool call to a JSONL audit log
+      --embeddings <provider>
+                           Enable find_relevant_rules with an embeddings
+                           provider: hashing, bm25 or a module path
+      --embeddings-index <path>
+                           File the section vectors are saved to (default:
+                           a file in ~/.cache/mcp-markdown-rules)
+      --transport <type>   Transport: stdio or http (default stdio)
+      --host <host>        Address the HTTP transport listens on (default 127.0.0.1)
+  -p, --port <port>        Port the HTTP transport listens on (default 3000)
+      --auth-token <token> Require "Authorization: Bearer <token>" on HTTP requests
+      --allowed-hosts <list>
+                           Host names HTTP clients may use, comma-separated
+                           (default localhost,127.0.0.1,[::1] and --host)
+      --allowed-origins <list>
+                           Browser origins allowed besides those of the
+                           allowed hosts, e.g. https://app.example.com
+  -h, --help               Show this help message
+
+Environment (overrides the config file, overridden by options):
+  MCP_CONFIG               Same as --config
+  MCP_RULES_DIR            Rules directory, or a '${delimiter}'-separated list of layers
+  MCP_DISCOVER             Same as --discover ('${delimiter}'-separated list)
+  MCP_VARS_FILE            Same as --vars-file
+  MCP_VAR_<NAME>           Template variable {{ name }} (overrides --vars-file)
+  MCP_LOG_LEVEL            Same as --log-level
+  MCP_LOG_FORMAT           Same as --log-format
+  MCP_LOG_FILE             Same as --log-file
+  MCP_AUDIT_LOG            Same as --audit-log
+  MCP_EMBEDDINGS           Same as --embeddings
+  MCP_EMBEDDINGS_INDEX     Same as --embeddings-index
+  MCP_TRANSPORT            Same as --transport
+  MCP_HOST                 Same as --host
+  MCP_PORT                 Same as --port
+  MCP_AUTH_TOKEN           Same as --auth-token
+  MCP_ALLOWED_HOSTS        Same as --allowed-hosts
+  MCP_ALLOWED_ORIGINS      Same as --allowed-origins
+  MCP_SESSION_TIMEOUT      Milliseconds before idle HTTP sessions are closed
+                           (default 1800000)
+  MCP_SERVER_NAME          Server name reported to clients
+  MCP_SERVER_VERSION       Server version reported to clients
+  MCP_SERVER_DESCRIPTION   Server description reported to clients
+  MCP_KEY_NAMING           Rule key naming: default or path
+  MCP_LOCALES              Same as --locales (comma-separated)
+  MCP_LOCALE               Same as --locale
+  MCP_CACHE_TTL            Milliseconds before rules are revalidated (default 5000)
+
+Examples:
+  node dist/cli.js                                    # Basic server
+  node dist/cli.js --watch                            # With file watching
+  node dist/cli.js --keyboard                         # With keyboard interface
+  node dist/cli.js --watch --keyboard                 # With both features
+  node dist/cli.js --rules-dir /path/to/rules         # Custom rules directory
+  node dist/cli.js --rules-dir ./custom-rules --watch # Custom dir + watching
+  node dist/cli.js -r ./org-rules -r ./team-rules     # Layered directories
+  node dist/cli.js --discover .                       # Also serve CLAUDE.md, ...
+  node dist/cli.js lint --rules-dir ./rules           # Lint rules for CI
+  node dist/cli.js export -f cursor,agents            # Generate .cursor/rules, AGENTS.md
+  node dist/cli.js export -f agents --check           # Verify AGENTS.md in CI
+  node dist/cli.js --transport http --port 3000       # Shared team server
+  node dist/cli.js --audit-log audit.jsonl            # Record tool calls
+  node dist/cli.js stats --audit-log audit.jsonl      # Summarize them
+  node dist/cli.js --print-config                     # Show resolved config
+`);
+  process.exit(0);
+}
+
+// Print lint diagnostics and return the process exit code
+async function runLint(store: RuleStore): Promise<number> {
+  const diagnostics = await store.lint();
+  diagnostics.forEach((diagnostic) => {
+    console.log(formatDiagnostic(diagnostic));
+  });
+
+  const errors = diagnostics.filter(
+    (diagnostic) => diagnostic.severity === 'error'
+  ).length;
+  const warnings = diagnostics.length - errors;
+  console.log(
+    diagnostics.length > 0
+      ? `\n${errors} error(s), ${warnings} warning(s)`
+      : '✅ No problems found'
+  );
+
+  return errors > 0 ? 1 : 0;
+}
+
+// Write (or with --check, verify) the exported rule files and return the
+// process exit code
+async function runExport(store: RuleStore): Promise<number> {
+  const unknown = options.exportFormats.filter(
+    (format) => !(EXPORT_FORMATS as readonly string[]).includes(format)
+  );
+  if (options.exportFormats.length === 0 || unknown.length > 0) {
+    console.error(
+      unknown.length > 0
+        ? `Error: Unknown export format: ${unknown.join(', ')}`
+        : 'Error: export requires --format'
+    );
+    console.error(`Formats: ${EXPORT_FORMATS.join(', ')}`);
+    return 1;
+  }
+
+  const formats = [...new Set(options.exportFormats)] as ExportFormat[];
+  const rules = Object.values(await store.reload()).map((rule) => ({
+    key: rule.key,
+    description: describeRule(rule),
+    metadata: rule.metadata,
+    content: rule.content,
+  }));
+  const result = await syncExportedFiles(
+    options.outDir,
+    formats,
+    formats.flatMap((format) => exportRules(rules, format)),
+    options.check
+  );
+
+  if (options.check) {
+    result.changed.forEach((path) => console.log(`Out of date: ${path}`));
+    result.removed.forEach((path) => console.log(`Stale: ${path}`));
+    const outdated = result.changed.length + result.removed.length;
+    console.log(
+      outdated > 0
+        ? `\n${outdated} file(s) out of date, run export to update them`
+        : '✅ Exported files are up to date'
+    );
+    return outdated > 0 ? 1 : 0;
+  }
+
+  result.changed.forEach((path) => console.log(`Wrote ${path}`));
+  result.removed.forEach((path) => console.log(`Removed ${path}`));
+  console.log(
+    `${result.changed.length} file(s) written, ${result.removed.length} removed, ${result.unchanged.length} unchanged`
+  );
+  return 0;
+}
+
+// Print a summary of the audit log and return the process exit code
+async function runStats(store: RuleStore): Promise<number> {
+  if (!config.auditLog) {
+    console.error(
+      'Error: stats requires --audit-log (or auditLog in the config file)'
+    );
+    return 1;
+  }
+  if (!existsSync(config.auditLog)) {
+    console.error(`Error: Audit log not found: ${config.auditLog}`);
+    return 1;
+  }
+
+  const entries = await readAuditLog(config.auditLog);
+  const rules = await store.getRules();
+  console.log(formatAuditStats(summarizeAuditLog(entries, Object.keys(rules))));
+  return 0;
+}
+
+// Setup keyboard interface
+function setupKeyboardInterface(store: RuleStore) {
+  const rl = createInterface({
+    input: process.stdin,
+    output: process.stderr,
+    terminal: false,
+  });
+
+  logger.info('Keyboard controls: q - Quit server, r - Restart server');
+
+  rl.on('line', (input) => {
+    const key = input.trim().toLowerCase();
+
+    switch (key) {
+      case 'q':
+        logger.info('Quitting server');
+        store.close();
+        rl.close();
+        process.exit(0);
+        break;
+
+      case 'r':
+        logger.info('Restarting server');
+        // Clear cache and restart file watchers
+        store.reset();
+        logger.info('Server restarted');
+        break;
+
+      default:
+        // Ignore other keys
+        break;
+    }
+  });
+
+  // Handle process termination
+  process.on('SIGINT', () => {
+    logger.info('Received SIGINT, shutting down');
+    store.close();
+    rl.close();
+    process.exit(0);
+  });
+
+  process.on('SIGTERM', () => {
+    logger.info('Received SIGTERM, shutting down');
+    store.close();
+    rl.close();
+    process.exit(0);
+  });
+}
+
+// Parse command line arguments
+const options = parseArguments();
+
+// Show help if requested
+if (options.help) {
+  showHelp();
+}
+
+const { config, file: configFile } = loadConfig(
+  options.configFile,
+  options.overrides
+);
+
+// Print the resolved configuration (with secrets hidden) and exit
+if (options.printConfig) {
+  if (configFile) {
+    console.error(`Config file: ${configFile}`);
+  }
+  console.log(JSON.stringify(redactConfig(config), null, 2));
+  process.exit(0);
+}
+
+// Logs go to stderr or a log file; stdout is reserved for the MCP protocol
+const logger = (() => {
+  try {
+    return createLogger(config.logging);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+})();
+if (configFile) {
+  logger.debug(`Using config file ${configFile}`);
+}
+
+// Creating the server loads the configured loaders, which may fail
+const rulesServer = await createRulesServer({ ...config, logger }).catch(
+  (error: Error) => {
+    error.message
+      .split('\n')
+      .forEach((message) => console.error(`Error: ${message}`));
+    process.exit(1);
+  }
+);
+const { store } = rulesServer;
+
+// Lint rules and exit instead of starting the server
+if (options.command === 'lint') {
+  process.exit(await runLint(store));
+}
+
+// Export rule files and exit instead of starting the server
+if (options.command === 'export') {
+  process.exit(await runExport(store));
+}
+
+// Summarize the audit log and exit instead of starting the server
+if (options.command === 'stats') {
+  process.exit(await runStats(store));
+}
+
+// Start server
+if (config.transport.type === 'http') {
+  const httpServer = await startHttpServer({
+    host: config.transport.host,
+    port: config.transport.port,
+    authToken: config.transport.authToken,
+    sessionTimeout: config.transport.sessionTimeout,
+    allowedHosts: config.transport.allowedHosts,
+    allowedOrigins: config.transport.allowedOrigins,
+    createServer: rulesServer.createServer,
+    health: async () => ({
+      name: config.server.name,
+      version: config.server.version,
+      rules: Object.keys(await store.getRules()).length,
+    }),
+    logger,
+  });
+  logger.info(
+    `${config.server.name} MCP Server listening on ${httpServer.url} (v${config.server.version})`
+  );
+  if (
+    !config.transport.authToken &&
+    !['127.0.0.1', '::1', 'localhost'].includes(config.transport.host)
+  ) {
+    logger.warn(
+      'HTTP transport is reachable without authentication (set --auth-token)'
+    );
+  }
+} else {
+  await rulesServer.connect(new StdioServerTransport());
+  logger.info(
+    `${config.server.name} MCP Server started (v${config.server.version})`
+  );
+}
+
+// Setup file change detection based on command line options
+if (options.watch) {
+  store.watch();
+  logger.info('File change detection enabled');
+
+  // Close the watchers on termination
+  ['SIGINT', 'SIGTERM'].forEach((signal) => {
+    process.on(signal, () => {
+      store.close();
+      process.exit(0);
+    });
+  });
+} else {
+  logger.info('File change detection disabled (use --watch to enable)');
+}
+
+// Setup keyboard interface based on command line options
+if (options.keyboard) {
+  setupKeyboardInterface(store);
+  logger.info('Keyboard interface enabled');
+} else {
+  logger.debug('Keyboard interface disabled (use --keyboard to enable)');
+}
@@ -0,0 +1,514 @@
+// Project configuration: defaults < config file < environment < command line
+import { existsSync, readFileSync } from 'fs';
+import { delimiter, dirname, join, resolve } from 'path';
+import { parse } from 'yaml';
+import type { KeyNaming } from './keys.js';
+import { isLoaderModule } from './loaders.js';
+import { LOCALE_PATTERN } from './locales.js';
+import { LOG_LEVELS, type LogFormat, type LogLevel } from './logger.js';
+
+export const CONFIG_FILE_NAMES = [
+  'mcp-rules.config.json',
+  '.mcp-rules.yaml',
+  '.mcp-rules.yml',
+];
+
+// Tools whose names can be changed with the toolNames option
+export const TOOL_NAMES = [
+  'get_project_rules',
+  'get_rule_sections',
+  'get_rules_for_files',
+  'validate_rules',
+  'search_project_rules',
+  'get_rule_history',
+  'find_relevant_rules',
+] as const;
+export type ToolName = (typeof TOOL_NAMES)[number];
+
+export interface RulesConfig {
+  // Rules directory layers, later layers override earlier ones
+  rulesDirs: string[];
+  // Code repositories whose agent rule files (CLAUDE.md, .cursor/rules, ...)
+  // are served next to the rules directories
+  discover: string[];
+  // Globs (relative to each rules directory) selecting the rule files to load
+  include: string[];
+  exclude: string[];
+  // Loaders for more file formats: file name glob -> built-in loader name or
+  // loader module path, e.g. { "*.rst": "text" }
+  loaders: Record<string, string>;
+  keyNaming: KeyNaming;
+  // Locales of translated rule files: with "ko" listed, COMMIT-MESSAGES.ko.md
+  // is a translation of COMMIT-MESSAGES.md rather than a rule of its own
+  locales: string[];
+  // Locale rules are served in unless a request asks for another one, e.g.
+  // "ko" for COMMIT-MESSAGES.ko.md (default: the files without a locale).
+  // It counts as one of the locales
+  locale?: string;
+  // Milliseconds before cached rules are revalidated (unused with --watch)
+  cacheTtl: number;
+  variables: Record<string, string>;
+  varsFile?: string;
+  server: {
+    name: string;
+    version: string;
+    description: string;
+  };
+  transport: {
+    type: 'stdio' | 'http';
+    host: string;
+    port: number;
+    authToken?: string;
+    // Milliseconds before an HTTP session without requests is closed
+    sessionTimeout: number;
+    // Host names and origins accepted from browsers (see startHttpServer)
+    allowedHosts?: string[];
+    allowedOrigins?: string[];
+  };
+  logging: {
+    level: LogLevel;
+    format: LogFormat;
+    file?: string;
+  };
+  // Append every tool call to this JSONL file (summarized by `stats`)
+  auditLog?: string;
+  // Semantic search with find_relevant_rules, enabled by setting a provider:
+  // hashing, bm25 or the path of an embedding module. Section vectors are
+  // kept in indexFile (default: a file in the user's cache directory)
+  embeddings: {
+    provider?: string;
+    indexFile?: string;
+  };
+  // Exposed names for the built-in tools, e.g. { "get_project_rules": "rules" }
+  toolNames: Partial<Record<ToolName, string>>;
+  // Prompts that bundle several rule types, by prompt name
+  prompts: Record<string, PromptBundle>;
+}
+
+export interface PromptBundle {
+  title?: string;
+  description?: string;
+  // Rule types to include: keys, subtree selectors (BACKEND/*) or ALL
+  rules: string[];
+}
+
+export type PartialConfig = {
+  [K in keyof RulesConfig]?: RulesConfig[K] extends unknown[]
+    ? RulesConfig[K]
+    : RulesConfig[K] extends object
+      ? Partial<RulesConfig[K]>
+      : RulesConfig[K];
+};
+
+export const DEFAULT_CONFIG: RulesConfig = {
+  rulesDirs: ['./rules'],
+  discover: [],
+  include: ['**/*'],
+  exclude: [],
+  loaders: {},
+  locales: [],
+  keyNaming: 'default',
+  cacheTtl: 5000,
+  variables: {},
+  server: {
+    name: 'project-rules',
+    version: '1.0.0',
+    description: 'MCP server for project rules',
+  },
+  transport: {
+    type: 'stdio',
+    host: '127.0.0.1',
+    port: 3000,
+    sessionTimeout: 30 * 60 * 1000,
+  },
+  logging: {
+    level: 'info',
+    format: 'text',
+  },
+  embeddings: {},
+  toolNames: {},
+  prompts: {},
+};
+
+type FieldSchema =
+  | { type: 'string'; pattern?: RegExp }
+  | { type: 'string[]' }
+  | { type: 'integer'; min: number; max?: number }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'scalars' }
+  | { type: 'object'; fields: Record<string, FieldSchema>; required?: string[] }
+  | { type: 'record'; values: FieldSchema };
+
+const TOOL_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export const CONFIG_SCHEMA: Record<string, FieldSchema> = {
+  $schema: { type: 'string' },
+  rulesDirs: { type: 'string[]' },
+  discover: { type: 'string[]' },
+  include: { type: 'string[]' },
+  exclude: { type: 'string[]' },
+  loaders: { type: 'record', values: { type: 'string' } },
+  keyNaming: { type: 'enum', values: ['default', 'path'] },
+  locales: { type: 'string[]' },
+  locale: { type: 'string', pattern: LOCALE_PATTERN },
+  cacheTtl: { type: 'integer', min: 0 },
+  variables: { type: 'scalars' },
+  varsFile: { type: 'string' },
+  server: {
+    type: 'object',
+    fields: {
+      name: { type: 'string' },
+      version: { type: 'string' },
+      description: { type: 'string' },
+    },
+  },
+  transport: {
+    type: 'object',
+    fields: {
+      type: { type: 'enum', values: ['stdio', 'http'] },
+      host: { type: 'string' },
+      port: { type: 'integer', min: 0, max: 65535 },
+      authToken: { type: 'string' },
+      sessionTimeout: { type: 'integer', min: 1 },
+      allowedHosts: { type: 'string[]' },
+      allowedOrigins: { type: 'string[]' },
+    },
+  },
+  logging: {
+    type: 'object',
+    fields: {
+      level: { type: 'enum', values: LOG_LEVELS },
+      format: { type: 'enum', values: ['text', 'json'] },
+      file: { type: 'string' },
+    },
+  },
+  auditLog: { type: 'string' },
+  embeddings: {
+    type: 'object',
+    fields: {
+      provider: { type: 'string' },
+      indexFile: { type: 'string' },
+    },
+  },
+  toolNames: {
+    type: 'object',
+    fields: Object.fromEntries(
+      TOOL_NAMES.map((name) => [
+        name,
+        { type: 'string', pattern: TOOL_NAME_PATTERN },
+      ])
+    ),
+  },
+  prompts: {
+    type: 'record',
+    values: {
+      type: 'object',
+      fields: {
+        title: { type: 'string' },
+        description: { type: 'string' },
+        rules: { type: 'string[]' },
+      },
+      required: ['rules'],
+    },
+  },
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Check a value against a field schema, returning an error message or undefined
+function checkField(schema: FieldSchema, value: unknown): string | undefined {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        return 'must be a string';
+      }
+      return schema.pattern && !schema.pattern.test(value)
+        ? `must match ${schema.pattern}`
+        : undefined;
+    case 'string[]':
+      return Array.isArray(value) &&
+        value.every((item) => typeof item === 'string')
+        ? undefined
+        : 'must be a list of strings';
+    case 'integer':
+      return typeof value === 'number' &&
+        Number.isInteger(value) &&
+        value >= schema.min &&
+        (schema.max === undefined || value <= schema.max)
+        ? undefined
+        : schema.max === undefined
+          ? `must be an integer of at least ${schema.min}`
+          : `must be an integer from ${schema.min} to ${schema.max}`;
+    case 'enum':
+      return typeof value === 'string' && schema.values.includes(value)
+        ? undefined
+        : `must be one of ${schema.values.join(', ')}`;
+    case 'scalars':
+      return isPlainObject(value) &&
+        Object.values(value).every((item) =>
+          ['string', 'number', 'boolean'].includes(typeof item)
+        )
+        ? undefined
+        : 'must be a mapping of names to strings, numbers or booleans';
+    case 'object':
+      if (!isPlainObject(value)) {
+        return 'must be an object';
+      }
+      return schema.required
+        ?.filter((name) => value[name] === undefined)
+        .map((name) => `is missing "${name}"`)[0];
+    case 'record':
+      return isPlainObject(value) ? undefined : 'must be an object';
+  }
+}
+
+// Validate raw configuration values, keeping the valid ones
+export function validateConfig(raw: unknown): {
+  config: PartialConfig;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  const validate = (
+    fields: Record<string, FieldSchema>,
+    value: Record<string, unknown>,
+    prefix: string
+  ): Record<string, unknown> => {
+    const valid: Record<string, unknown> = {};
+
+    Object.entries(value).forEach(([name, fieldValue]) => {
+      const path = `${prefix}${name}`;
+      const schema = fields[name];
+      if (!schema) {
+        errors.push(`Unknown option "${path}"`);
+        return;
+      }
+      if (fieldValue === undefined) {
+        return;
+      }
+
+      const error = checkField(schema, fieldValue);
+      if (error) {
+        errors.push(`"${path}" ${error}`);
+      } else if (schema.type === 'object') {
+        valid[name] = validate(
+          schema.fields,
+          fieldValue as Record<string, unknown>,
+          `${path}.`
+        );
+      } else if (schema.type === 'record') {
+        const entries = fieldValue as Record<string, unknown>;
+        valid[name] = validate(
+          Object.fromEntries(
+            Object.keys(entries).map((key) => [key, schema.values])
+          ),
+          entries,
+          `${path}.`
+        );
+      } else if (schema.type === 'scalars') {
+        valid[name] = Object.fromEntries(
+          Object.entries(fieldValue as Record<string, unknown>).map(
+            ([key, item]) => [key, String(item)]
+          )
+        );
+      } else {
+        valid[name] = fieldValue;
+      }
+    });
+
+    return valid;
+  };
+
+  if (!isPlainObject(raw)) {
+    return {
+      config: {},
+      errors: ['Configuration must be an object of options'],
+    };
+  }
+
+  // "$schema" only points editors at a JSON schema and is not an option
+  const config = validate(CONFIG_SCHEMA, raw, '');
+  delete config.$schema;
+  return { config: config as PartialConfig, errors };
+}
+
+// Look for a config file in a directory and its parents
+export function findConfigFile(startDir: string): string | undefined {
+  let dir = resolve(startDir);
+
+  for (;;) {
+    const found = CONFIG_FILE_NAMES.map((name) => join(dir, name)).find(
+      (file) => existsSync(file)
+    );
+    if (found) {
+      return found;
+    }
+
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+// Read and validate a config file; relative paths in it are resolved
+// against the directory that contains the file
+export function loadConfigFile(file: string): {
+  config: PartialConfig;
+  errors: string[];
+} {
+  let raw: unknown;
+  try {
+    const source = readFileSync(file, 'utf-8');
+    raw = file.endsWith('.json') ? JSON.parse(source) : parse(source);
+  } catch (error) {
+    return {
+      config: {},
+      errors: [`Cannot read config: ${(error as Error).message}`],
+    };
+  }
+
+  const { config, errors } = validateConfig(raw ?? {});
+  const baseDir = dirname(resolve(file));
+  const resolvePath = (path: string) => resolve(baseDir, path);
+
+  if (config.rulesDirs) {
+    config.rulesDirs = config.rulesDirs.map(resolvePath);
+  }
+  if (config.discover) {
+    config.discover = config.discover.map(resolvePath);
+  }
+  if (config.varsFile) {
+    config.varsFile = resolvePath(config.varsFile);
+  }
+  if (config.loaders) {
+    config.loaders = Object.fromEntries(
+      Object.entries(config.loaders).map(([pattern, target]) => [
+        pattern,
+        target && isLoaderModule(target) ? resolvePath(target) : target,
+      ])
+    );
+  }
+  if (config.logging?.file) {
+    config.logging.file = resolvePath(config.logging.file);
+  }
+  if (config.auditLog) {
+    config.auditLog = resolvePath(config.auditLog);
+  }
+  if (
+    config.embeddings?.provider &&
+    isLoaderModule(config.embeddings.provider)
+  ) {
+    config.embeddings.provider = resolvePath(config.embeddings.provider);
+  }
+  if (config.embeddings?.indexFile) {
+    config.embeddings.indexFile = resolvePath(config.embeddings.indexFile);
+  }
+
+  return { config, errors };
+}
+
+// Convert a numeric option that arrived as text; invalid input becomes NaN
+// so validation reports it
+export function toNumber(value: string | undefined): number | undefined {
+  return value === undefined || value === '' ? undefined : Number(value);
+}
+
+// Read configuration from MCP_* environment variables
+export function configFromEnv(env: NodeJS.ProcessEnv = process.env): unknown {
+  const value = (name: string) => env[name] || undefined;
+
+  return {
+    rulesDirs: value('MCP_RULES_DIR')?.split(delimiter).filter(Boolean),
+    discover: value('MCP_DISCOVER')?.split(delimiter).filter(Boolean),
+    keyNaming: value('MCP_KEY_NAMING'),
+    locales: value('MCP_LOCALES')?.split(',').filter(Boolean),
+    locale: value('MCP_LOCALE'),
+    cacheTtl: toNumber(value('MCP_CACHE_TTL')),
+    varsFile: value('MCP_VARS_FILE'),
+    server: {
+      name: value('MCP_SERVER_NAME'),
+      version: value('MCP_SERVER_VERSION'),
+      description: value('MCP_SERVER_DESCRIPTION'),
+    },
+    transport: {
+      type: value('MCP_TRANSPORT'),
+      host: value('MCP_HOST'),
+      port: toNumber(value('MCP_PORT')),
+      authToken: value('MCP_AUTH_TOKEN'),
+      sessionTimeout: toNumber(value('MCP_SESSION_TIMEOUT')),
+      allowedHosts: value('MCP_ALLOWED_HOSTS')?.split(',').filter(Boolean),
+      allowedOrigins: value('MCP_ALLOWED_ORIGINS')?.split(',').filter(Boolean),
+    },
+    logging: {
+      level: value('MCP_LOG_LEVEL'),
+      format: value('MCP_LOG_FORMAT'),
+      file: value('MCP_LOG_FILE'),
+    },
+    auditLog: value('MCP_AUDIT_LOG'),
+    embeddings: {
+      provider: value('MCP_EMBEDDINGS'),
+      indexFile: value('MCP_EMBEDDINGS_INDEX'),
+    },
+  };
+}
+
+// Merge configuration layers; later layers win and lists are replaced.
+// Validated layers never hold undefined values, so the result is complete
+export function mergeConfig(...layers: PartialConfig[]): RulesConfig {
+  return layers.reduce<RulesConfig>(
+    (merged, layer) =>
+      ({
+        ...merged,
+        ...layer,
+        loaders: { ...merged.loaders, ...layer.loaders },
+        variables: { ...merged.variables, ...layer.variables },
+        server: { ...merged.server, ...layer.server },
+        transport: { ...merged.transport, ...layer.transport },
+        logging: { ...merged.logging, ...layer.logging },
+        embeddings: { ...merged.embeddings, ...layer.embeddings },
+        toolNames: { ...merged.toolNames, ...layer.toolNames },
+        prompts: { ...merged.prompts, ...layer.prompts },
+      }) as RulesConfig,
+    DEFAULT_CONFIG
+  );
+}
+
+// Validate options passed in code and complete them with the defaults,
+// throwing an error with one line per problem
+export function resolveConfig(options: unknown): RulesConfig {
+  const { config, errors } = validateConfig(options);
+  const resolved = mergeConfig(config);
+  errors.push(...checkToolNames(resolved));
+
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+
+  return resolved;
+}
+
+// Report renamed tools that clash with each other or with built-in names
+export function checkToolNames(config: RulesConfig): string[] {
+  const seen = new Map<string, ToolName>();
+
+  return TOOL_NAMES.flatMap((name) => {
+    const exposed = config.toolNames[name] ?? name;
+    const existing = seen.get(exposed);
+    seen.set(exposed, name);
+
+    return existing
+      ? [`"toolNames": ${existing} and ${name} are both named "${exposed}"`]
+      : [];
+  });
+}
+
+// Hide secrets before showing the configuration
+export function redactConfig(config: RulesConfig): RulesConfig {
+  return config.transport.authToken
+    ? { ...config, transport: { ...config.transport, authToken: '********' } }
+    : config;
+}
@@ -0,0 +1,164 @@
+// Discovery of the agent rule files other tools keep in a code repository
+// (Cursor, Copilot, Claude, Windsurf, ...), served under namespaced keys
+import { stat } from 'fs/promises';
+import { dirname, join, sep } from 'path';
+import {
+  listRuleFiles,
+  refreshRuleFile,
+  type RefreshResult,
+  type RuleFileCache,
+} from './cache.js';
+import { GENERATED_NOTICE } from './export.js';
+import { BUILTIN_LOADERS, type RuleLoader } from './loaders.js';
+
+// A known location of agent rule files. A single file becomes the overview
+// of its namespace (CLAUDE.md -> CLAUDE-OVERVIEW); files in a directory keep
+// their nesting below the namespace (.cursor/rules/react.mdc -> CURSOR-REACT)
+export type AgentRuleSource = { namespace: string } & (
+  | { file: string }
+  | { dir: string; files: string; rename?: (file: string) => string }
+);
+
+export const AGENT_RULE_SOURCES: AgentRuleSource[] = [
+  { namespace: 'agents', file: 'AGENTS.md' },
+  { namespace: 'claude', file: 'CLAUDE.md' },
+  { namespace: 'gemini', file: 'GEMINI.md' },
+  { namespace: 'cursor', file: '.cursorrules' },
+  { namespace: 'cursor', dir: '.cursor/rules', files: '*.mdc' },
+  { namespace: 'copilot', file: '.github/copilot-instructions.md' },
+  {
+    namespace: 'copilot',
+    dir: '.github/instructions',
+    files: '*.instructions.md',
+    rename: (file) => file.replace(/\.instructions\.md$/, '.md'),
+  },
+  { namespace: 'windsurf', file: '.windsurfrules' },
+  { namespace: 'windsurf', dir: '.windsurf/rules', files: '*.md' },
+  { namespace: 'cline', file: '.clinerules' },
+  { namespace: 'cline', dir: '.clinerules', files: '*.md' },
+];
+
+// A discovered file and the rule path its key is derived from
+export interface AgentRuleFile {
+  // Path relative to the repository root
+  relativePath: string;
+  // Namespaced path, e.g. "cursor/react.mdc" or "claude/README.md"
+  rulePath: string;
+}
+
+async function isKind(path: string, kind: 'file' | 'directory') {
+  try {
+    const stats = await stat(path);
+    return kind === 'file' ? stats.isFile() : stats.isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+// Find the agent rule files of a repository by convention
+export async function findAgentRuleFiles(
+  repoDir: string,
+  loaders: RuleLoader[] = BUILTIN_LOADERS
+): Promise<AgentRuleFile[]> {
+  const found: AgentRuleFile[] = [];
+
+  for (const source of AGENT_RULE_SOURCES) {
+    if ('file' in source) {
+      if (await isKind(join(repoDir, source.file), 'file')) {
+        found.push({
+          relativePath: join(source.file),
+          rulePath: `${source.namespace}/README.md`,
+        });
+      }
+      continue;
+    }
+
+    const dir = join(repoDir, source.dir);
+    if (!(await isKind(dir, 'directory'))) {
+      continue;
+    }
+
+    const files = await listRuleFiles(dir, {
+      include: [`**/${source.files}`],
+      exclude: [],
+      loaders,
+    });
+    files.sort().forEach((file) => {
+      const directories = file.split(sep);
+      const name = directories.pop()!;
+      found.push({
+        relativePath: join(source.dir, file),
+        rulePath: [
+          source.namespace,
+          ...directories,
+          source.rename?.(name) ?? name,
+        ].join('/'),
+      });
+    });
+  }
+
+  return found;
+}
+
+// Directories (relative to the repository root) to watch for changes: the
+// parents of single files, and rule directories with their subdirectories
+export function getAgentRuleWatchDirs(): { dir: string; recursive: boolean }[] {
+  const dirs = new Map<string, boolean>();
+  AGENT_RULE_SOURCES.forEach((source) => {
+    if ('file' in source) {
+      const dir = dirname(source.file);
+      dirs.set(dir, dirs.get(dir) ?? false);
+    } else {
+      dirs.set(source.dir, true);
+    }
+  });
+
+  return [...dirs].map(([dir, recursive]) => ({ dir, recursive }));
+}
+
+// Bring the cache entries of a repository's agent rule files up to date.
+// The entries are keyed by their namespaced rule path rather than by their
+// location in the repository. Files written by the export command are
+// skipped: they hold the served rules already, and loading them would
+// bundle every export into the next one
+export async function refreshAgentRules(
+  cache: RuleFileCache,
+  repoDir: string,
+  loaders: RuleLoader[] = BUILTIN_LOADERS
+): Promise<RefreshResult> {
+  const result: RefreshResult = { read: [], removed: [] };
+  const files = await findAgentRuleFiles(repoDir, loaders);
+  const rulePaths = new Map(
+    files.map((file) => [join(repoDir, file.relativePath), file.rulePath])
+  );
+
+  for (const file of files) {
+    const filePath = join(repoDir, file.relativePath);
+    const previous = cache.get(filePath);
+    await refreshRuleFile(cache, repoDir, file.relativePath, result, loaders);
+
+    const ruleFile = cache.get(filePath);
+    if (ruleFile?.body.includes(GENERATED_NOTICE)) {
+      cache.delete(filePath);
+      result.read.splice(result.read.indexOf(ruleFile), 1);
+      if (previous) {
+        result.removed.push(previous);
+      }
+    }
+  }
+
+  result.read.forEach((ruleFile) => {
+    const directories = rulePaths.get(ruleFile.filePath)!.split('/');
+    ruleFile.file = directories.pop()!;
+    ruleFile.directories = directories;
+  });
+
+  cache.forEach((ruleFile, filePath) => {
+    if (ruleFile.rulesDir === repoDir && !rulePaths.has(filePath)) {
+      cache.delete(filePath);
+      result.removed.push(ruleFile);
+    }
+  });
+
+  return result;
+}
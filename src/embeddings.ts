@@ -0,0 +1,313 @@
+// Semantic search over rule sections: an embedding provider turns texts into
+// vectors, and the index keeps one vector per section in a file so that only
+// new or edited sections are embedded again
+import { existsSync } from 'fs';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { homedir } from 'os';
+import { dirname, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { hashContent } from './git.js';
+import { isLoaderModule } from './loaders.js';
+import type { Logger } from './logger.js';
+import { splitSections } from './markdown.js';
+import {
+  createSearchIndex,
+  createSnippet,
+  searchRules,
+  tokenize,
+  type SearchIndex,
+  type SearchMatch,
+} from './search.js';
+
+export interface EmbeddingProvider {
+  name: string;
+  // One vector per text; every vector has the same length
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface SemanticIndex {
+  // Embed the sections that are not indexed yet and save the index file
+  update(rules: { key: string; content: string }[]): Promise<void>;
+  // Rank the indexed sections by similarity to a query
+  search(query: string, limit: number): Promise<SearchMatch[]>;
+}
+
+// Built-in providers: hashed word and character features, or no vectors at
+// all (BM25 keyword ranking)
+export const BUILTIN_EMBEDDINGS = ['hashing', 'bm25'] as const;
+
+// Version of the index file format
+const INDEX_VERSION = 1;
+
+const HASHING_DIMENSIONS = 512;
+const TRIGRAM_WEIGHT = 0.5;
+
+interface IndexedSection {
+  key: string;
+  headingPath: string[];
+  text: string;
+  // Text that is embedded: the section under its parent headings
+  input: string;
+  hash: string;
+}
+
+// 32-bit FNV-1a hash
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index++) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Drop common English inflections, so that "migrations" and "migrating"
+// share a feature with "migration"
+function stem(word: string): string {
+  const stemmed = word.replace(/(?:ing|ed|es|s)$/, '');
+  return stemmed.length >= 3 ? stemmed : word;
+}
+
+// Scale a vector to unit length
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value ** 2, 0));
+  return length > 0 ? vector.map((value) => value / length) : vector;
+}
+
+// Embed text by hashing its stemmed words and their character trigrams into
+// a fixed number of dimensions. Runs offline and needs no model, but only
+// relates texts that share words or word parts
+function embedHashing(text: string): number[] {
+  const vector = new Array<number>(HASHING_DIMENSIONS).fill(0);
+  const add = (feature: string, weight: number) => {
+    const hash = fnv1a(feature);
+    vector[hash % HASHING_DIMENSIONS]! += hash & 0x80000000 ? -weight : weight;
+  };
+
+  tokenize(text).forEach((word) => {
+    const stemmed = stem(word);
+    add(`w:${stemmed}`, 1);
+    const padded = `#${stemmed}#`;
+    for (let index = 0; index + 3 <= padded.length; index++) {
+      add(`t:${padded.slice(index, index + 3)}`, TRIGRAM_WEIGHT);
+    }
+  });
+
+  return normalize(vector);
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  a.forEach((value, index) => {
+    const other = b[index] ?? 0;
+    dot += value * other;
+    normA += value ** 2;
+    normB += other ** 2;
+  });
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Create the embedding provider named by the "embeddings.provider" option:
+// a built-in provider, or a module exporting an embed(texts) function (for
+// example one running a local model). bm25 has no provider
+export async function createEmbeddingProvider(
+  target: string
+): Promise<EmbeddingProvider | undefined> {
+  if (target === 'bm25') {
+    return undefined;
+  }
+  if (target === 'hashing') {
+    return {
+      name: target,
+      embed: async (texts) => texts.map(embedHashing),
+    };
+  }
+  if (!isLoaderModule(target)) {
+    throw new Error(
+      `"embeddings.provider" must be one of ${BUILTIN_EMBEDDINGS.join(', ')} or a module path`
+    );
+  }
+
+  let module: { default?: unknown; embed?: unknown };
+  try {
+    module = await import(pathToFileURL(resolve(target)).href);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`"embeddings.provider": cannot load ${target}: ${message}`);
+  }
+  const embed =
+    typeof module.default === 'function' ? module.default : module.embed;
+  if (typeof embed !== 'function') {
+    throw new Error(
+      `"embeddings.provider": ${target} does not export an embed function`
+    );
+  }
+
+  return {
+    name: target,
+    embed: async (texts) => {
+      const vectors: unknown = await embed(texts);
+      if (
+        !Array.isArray(vectors) ||
+        vectors.length !== texts.length ||
+        !vectors.every(
+          (vector) =>
+            Array.isArray(vector) &&
+            vector.every((value) => typeof value === 'number')
+        )
+      ) {
+        throw new Error(
+          `Embedding provider ${target} must return one list of numbers per text`
+        );
+      }
+      return vectors as number[][];
+    },
+  };
+}
+
+// Default index file: one per provider and set of rules directories in the
+// user's cache directory
+export function getDefaultIndexFile(
+  provider: string,
+  layers: string[]
+): string {
+  const cacheDir = process.env.XDG_CACHE_HOME || join(homedir(), '.cache');
+  const id = hashContent(JSON.stringify([provider, ...layers]));
+  return join(cacheDir, 'mcp-markdown-rules', `embeddings-${id}.json`);
+}
+
+// Create a semantic index over rule sections. Vectors are stored by a hash
+// of the section text, so unchanged sections keep their vectors across
+// rule updates and restarts. When the provider fails, or is bm25, sections
+// are ranked by keywords instead
+export async function createSemanticIndex(options: {
+  provider: string;
+  indexFile: string;
+  logger: Logger;
+}): Promise<SemanticIndex> {
+  const { indexFile, logger } = options;
+  const provider = await createEmbeddingProvider(options.provider);
+  let sections: IndexedSection[] = [];
+  // Keyword index of the same rules, for bm25 and when the provider fails
+  let keywordIndex: SearchIndex = createSearchIndex([]);
+  let vectors = new Map<string, number[]>();
+
+  // Vectors of another provider (or index format) are not comparable
+  if (provider && existsSync(indexFile)) {
+    try {
+      const saved = JSON.parse(await readFile(indexFile, 'utf-8')) as {
+        version?: number;
+        provider?: string;
+        vectors?: Record<string, number[]>;
+      };
+      if (saved.version === INDEX_VERSION && saved.provider === provider.name) {
+        vectors = new Map(Object.entries(saved.vectors ?? {}));
+      }
+    } catch (error) {
+      logger.warn(`Ignoring unreadable embedding index ${indexFile}`, error);
+    }
+  }
+
+  async function save() {
+    await mkdir(dirname(indexFile), { recursive: true });
+    await writeFile(
+      indexFile,
+      JSON.stringify({
+        version: INDEX_VERSION,
+        provider: provider!.name,
+        vectors: Object.fromEntries(vectors),
+      })
+    );
+  }
+
+  async function update(current: { key: string; content: string }[]) {
+    keywordIndex = createSearchIndex(current);
+    // Sections holding nothing but their heading would match on the heading
+    // alone, so only sections with a body are indexed
+    sections = current.flatMap((rule) =>
+      splitSections(rule.content)
+        .filter((section) =>
+          section.text
+            .split('\n')
+            .slice(section.level > 0 ? 1 : 0)
+            .some((line) => line.trim())
+        )
+        .map((section) => {
+          const input = [
+            ...section.headingPath.slice(0, -1),
+            section.text,
+          ].join('\n');
+          return {
+            key: rule.key,
+            headingPath: section.headingPath,
+            text: section.text,
+            input,
+            hash: hashContent(input),
+          };
+        })
+    );
+    if (!provider) {
+      return;
+    }
+
+    // Embed new sections and forget the ones that are gone
+    const hashes = new Set(sections.map((section) => section.hash));
+    const missing = [...hashes].filter((hash) => !vectors.has(hash));
+    const stale = [...vectors.keys()].filter((hash) => !hashes.has(hash));
+    if (missing.length === 0 && stale.length === 0) {
+      return;
+    }
+
+    const texts = missing.map(
+      (hash) => sections.find((section) => section.hash === hash)!.input
+    );
+    try {
+      const embedded = await provider.embed(texts);
+      missing.forEach((hash, index) => vectors.set(hash, embedded[index]!));
+    } catch (error) {
+      logger.warn('Embedding provider failed to index rule sections', error);
+      return;
+    }
+    stale.forEach((hash) => vectors.delete(hash));
+    logger.debug(
+      `Embedded ${missing.length} rule section(s), dropped ${stale.length}`
+    );
+
+    try {
+      await save();
+    } catch (error) {
+      logger.warn(`Failed to save embedding index ${indexFile}`, error);
+    }
+  }
+
+  async function search(query: string, limit: number): Promise<SearchMatch[]> {
+    if (provider && sections.every((section) => vectors.has(section.hash))) {
+      try {
+        const [queryVector] = await provider.embed([query]);
+        const terms = tokenize(query);
+
+        return sections
+          .map((section) => ({
+            key: section.key,
+            headingPath: section.headingPath,
+            snippet: createSnippet(section.text, terms),
+            score: cosineSimilarity(queryVector!, vectors.get(section.hash)!),
+          }))
+          .filter((match) => match.score > 0)
+          .sort((a, b) => b.score - a.score)
+          .slice(0, limit);
+      } catch (error) {
+        logger.warn(
+          'Embedding provider failed, ranking rules by keywords',
+          error
+        );
+      }
+    }
+
+    return searchRules(keywordIndex, query, limit);
+  }
+
+  return { update, search };
+}
@@ -0,0 +1,211 @@
+// Export of the merged rules as files for tools that do not speak MCP
+// (Cursor, GitHub Copilot, AGENTS.md readers, ...)
+import { mkdir, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { stringify } from 'yaml';
+import type { RuleMetadata } from './frontmatter.js';
+
+export const EXPORT_FORMATS = [
+  'cursor',
+  'copilot',
+  'agents',
+  'markdown',
+  'json',
+] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface ExportRule {
+  key: string;
+  description: string;
+  metadata: RuleMetadata;
+  content: string;
+}
+
+// A file to generate, relative to the output directory
+export interface ExportedFile {
+  path: string;
+  content: string;
+}
+
+export interface ExportResult {
+  // Files that were (or, when checking, would be) written
+  changed: string[];
+  // Previously generated files that no longer belong to the export
+  removed: string[];
+  unchanged: string[];
+}
+
+// Marks generated files, so that stale ones can be found and removed
+export const GENERATED_NOTICE =
+  '<!-- Generated by mcp-markdown-rules export. Edit the rules instead of this file. -->';
+
+// Directories that only the per-rule formats write to
+const GENERATED_DIRS: Partial<Record<ExportFormat, string>> = {
+  cursor: '.cursor/rules',
+  copilot: '.github/instructions',
+};
+
+// File name for a rule key, e.g. BACKEND/API-ERRORS -> backend-api-errors
+function toFileName(key: string): string {
+  return key.toLowerCase().replace(/\//g, '-');
+}
+
+function withFrontMatter(data: Record<string, unknown>, body: string): string {
+  return `---\n${stringify(data)}---\n\n${GENERATED_NOTICE}\n\n${body.trimEnd()}\n`;
+}
+
+// Combine rules into one markdown document, noting which files scoped
+// rules apply to
+function bundleRules(title: string, rules: ExportRule[]): string {
+  const sections = rules.map((rule) => {
+    const scope = rule.metadata.applies_to
+      ? `_Applies to: ${rule.metadata.applies_to.map((glob) => `\`${glob}\``).join(', ')}_\n\n`
+      : '';
+    return `## ${rule.key}\n\n${scope}${rule.content.trim()}\n`;
+  });
+
+  return `${GENERATED_NOTICE}\n\n# ${title}\n\n${sections.join('\n')}`;
+}
+
+// Generate the files of one export format. Rules are ordered by key and no
+// timestamps are written, so the output only changes with the rules
+export function exportRules(
+  rules: ExportRule[],
+  format: ExportFormat
+): ExportedFile[] {
+  const sorted = [...rules].sort((a, b) =>
+    a.key < b.key ? -1 : a.key > b.key ? 1 : 0
+  );
+
+  switch (format) {
+    case 'cursor':
+      return sorted.map((rule) => ({
+        path: `.cursor/rules/${toFileName(rule.key)}.mdc`,
+        content: withFrontMatter(
+          {
+            description: rule.description,
+            ...(rule.metadata.applies_to
+              ? { globs: rule.metadata.applies_to.join(',') }
+              : {}),
+            alwaysApply: !rule.metadata.applies_to,
+          },
+          rule.content
+        ),
+      }));
+    case 'copilot': {
+      // Rules for all files go into the repository instructions, scoped
+      // rules into path-specific instruction files
+      const scoped = sorted.filter((rule) => rule.metadata.applies_to);
+      return [
+        {
+          path: '.github/copilot-instructions.md',
+          content: bundleRules(
+            'Project Rules',
+            sorted.filter((rule) => !rule.metadata.applies_to)
+          ),
+        },
+        ...scoped.map((rule) => ({
+          path: `.github/instructions/${toFileName(rule.key)}.instructions.md`,
+          content: withFrontMatter(
+            { applyTo: rule.metadata.applies_to!.join(',') },
+            rule.content
+          ),
+        })),
+      ];
+    }
+    case 'agents':
+      return [
+        { path: 'AGENTS.md', content: bundleRules('Agent Rules', sorted) },
+      ];
+    case 'markdown':
+      return [
+        { path: 'RULES.md', content: bundleRules('Project Rules', sorted) },
+      ];
+    case 'json':
+      return [
+        {
+          path: 'rules.json',
+          content: `${JSON.stringify({ rules: sorted }, null, 2)}\n`,
+        },
+      ];
+  }
+}
+
+async function readFileOrUndefined(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+// List the files below a directory (as '/'-separated relative paths), or
+// none when it is missing
+async function listFiles(dir: string, prefix = ''): Promise<string[]> {
+  let entries;
+  try {
+    entries = await readdir(join(dir, prefix), { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(dir, path)));
+    } else if (entry.isFile()) {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+// Write the exported files below an output directory, leaving identical files
+// untouched and removing generated files that are no longer exported. With
+// check set, nothing is written and the result lists what is out of date
+export async function syncExportedFiles(
+  outDir: string,
+  formats: ExportFormat[],
+  files: ExportedFile[],
+  check = false
+): Promise<ExportResult> {
+  const result: ExportResult = { changed: [], removed: [], unchanged: [] };
+
+  for (const file of files) {
+    const path = join(outDir, file.path);
+    if ((await readFileOrUndefined(path)) === file.content) {
+      result.unchanged.push(file.path);
+      continue;
+    }
+
+    result.changed.push(file.path);
+    if (!check) {
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, file.content);
+    }
+  }
+
+  const exported = new Set(files.map((file) => file.path));
+  for (const format of formats) {
+    const generatedDir = GENERATED_DIRS[format];
+    if (!generatedDir) {
+      continue;
+    }
+
+    for (const file of await listFiles(join(outDir, generatedDir))) {
+      const path = `${generatedDir}/${file}`;
+      const content = await readFileOrUndefined(join(outDir, path));
+      if (exported.has(path) || !content?.includes(GENERATED_NOTICE)) {
+        continue;
+      }
+
+      result.removed.push(path);
+      if (!check) {
+        await rm(join(outDir, path));
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,108 @@
+import { parse } from 'yaml';
+
+// Metadata that can be declared in a rule file's YAML front matter
+export interface RuleMetadata {
+  title?: string;
+  description?: string;
+  tags?: string[];
+  priority?: number;
+  owner?: string;
+  // How a rule in a later rules directory layer combines with an earlier one
+  merge?: 'replace' | 'append' | 'prepend';
+  // Globs of the project files this rule applies to, e.g. "src/**/*.tsx"
+  applies_to?: string[];
+  // Other names the rule can be requested by, e.g. "commits"
+  aliases?: string[];
+  [key: string]: unknown;
+}
+
+export interface FrontMatterResult {
+  metadata: RuleMetadata;
+  body: string;
+  errors: string[];
+}
+
+const FRONT_MATTER_PATTERN =
+  /^---\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/;
+
+// Validate the known metadata fields, dropping values with the wrong type
+export function normalizeMetadata(
+  data: Record<string, unknown>,
+  errors: string[]
+): RuleMetadata {
+  const metadata: RuleMetadata = { ...data };
+
+  for (const field of ['title', 'description', 'owner'] as const) {
+    if (field in metadata && typeof metadata[field] !== 'string') {
+      errors.push(`"${field}" must be a string`);
+      delete metadata[field];
+    }
+  }
+
+  for (const field of ['tags', 'applies_to', 'aliases'] as const) {
+    if (!(field in metadata)) {
+      continue;
+    }
+
+    const value = metadata[field] as unknown;
+    if (typeof value === 'string') {
+      metadata[field] = [value];
+    } else if (
+      !Array.isArray(value) ||
+      !value.every((item) => typeof item === 'string')
+    ) {
+      errors.push(`"${field}" must be a string or a list of strings`);
+      delete metadata[field];
+    }
+  }
+
+  if ('priority' in metadata && typeof metadata.priority !== 'number') {
+    errors.push('"priority" must be a number');
+    delete metadata.priority;
+  }
+
+  if (
+    'merge' in metadata &&
+    !['replace', 'append', 'prepend'].includes(metadata.merge as string)
+  ) {
+    errors.push('"merge" must be one of replace, append or prepend');
+    delete metadata.merge;
+  }
+
+  return metadata;
+}
+
+// Split an optional YAML front matter block from a markdown document
+export function parseFrontMatter(source: string): FrontMatterResult {
+  const match = source.match(FRONT_MATTER_PATTERN);
+  if (!match) {
+    return { metadata: {}, body: source, errors: [] };
+  }
+
+  const body = source.slice(match[0].length).replace(/^\s*\n/, '');
+  const errors: string[] = [];
+  let data: unknown;
+
+  try {
+    data = parse(match[1] ?? '');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    errors.push(`Invalid YAML: ${message.split('\n')[0]?.replace(/:$/, '')}`);
+    return { metadata: {}, body, errors };
+  }
+
+  if (data === null || data === undefined) {
+    return { metadata: {}, body, errors };
+  }
+
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    errors.push('Front matter must be a mapping of key/value pairs');
+    return { metadata: {}, body, errors };
+  }
+
+  return {
+    metadata: normalizeMetadata(data as Record<string, unknown>, errors),
+    body,
+    errors,
+  };
+}
@@ -0,0 +1,118 @@
+// Read-only access to the local git history of rule files. Only local
+// commands are run (never fetch), with prompts and lazy fetching disabled
+import { execFile } from 'child_process';
+import { createHash } from 'crypto';
+import { basename, dirname } from 'path';
+
+export interface CommitInfo {
+  hash: string;
+  shortHash: string;
+  author: string;
+  // ISO 8601 author date
+  date: string;
+  subject: string;
+}
+
+const FIELD_SEPARATOR = '\x1f';
+const COMMIT_FORMAT = ['%H', '%h', '%an', '%aI', '%s'].join('%x1f');
+
+// Refs are passed as arguments, so they must not look like options
+const REF_PATTERN = /^[\w./@{}~^-]+$/;
+
+// Run a git command and return its standard output
+export function runGit(cwd: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      'git',
+      args,
+      {
+        cwd,
+        env: {
+          ...process.env,
+          GIT_TERMINAL_PROMPT: '0',
+          GIT_NO_LAZY_FETCH: '1',
+        },
+        maxBuffer: 16 * 1024 * 1024,
+      },
+      (error, stdout) => (error ? reject(error) : resolve(stdout))
+    );
+  });
+}
+
+// Return the commit HEAD points to, or undefined when the directory is not
+// in a git work tree (or git is not installed)
+export async function getHeadCommit(dir: string): Promise<string | undefined> {
+  try {
+    return (
+      await runGit(dir, ['rev-parse', '--verify', '--quiet', 'HEAD'])
+    ).trim();
+  } catch {
+    return undefined;
+  }
+}
+
+// Resolve a branch, tag or commit to a commit hash
+export async function resolveRef(dir: string, ref: string): Promise<string> {
+  if (!REF_PATTERN.test(ref) || ref.startsWith('-')) {
+    throw new Error(`Invalid git ref: ${ref}`);
+  }
+
+  try {
+    return (
+      await runGit(dir, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`])
+    ).trim();
+  } catch {
+    throw new Error(`Unknown git ref: ${ref}`);
+  }
+}
+
+function parseCommits(output: string): CommitInfo[] {
+  return output
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => {
+      const [hash = '', shortHash = '', author = '', date = '', subject = ''] =
+        line.split(FIELD_SEPARATOR);
+      return { hash, shortHash, author, date, subject };
+    });
+}
+
+// List the commits that changed a file, newest first, following renames.
+// With a commit, only its history is searched
+export async function getFileHistory(
+  filePath: string,
+  limit: number,
+  commit?: string
+): Promise<CommitInfo[]> {
+  return parseCommits(
+    await runGit(dirname(filePath), [
+      'log',
+      `--max-count=${limit}`,
+      '--follow',
+      `--format=${COMMIT_FORMAT}`,
+      ...(commit ? [commit] : []),
+      '--',
+      basename(filePath),
+    ])
+  );
+}
+
+// Read a file as of a commit, or undefined when it did not exist then
+export async function readFileAtCommit(
+  filePath: string,
+  commit: string
+): Promise<string | undefined> {
+  try {
+    return await runGit(dirname(filePath), [
+      'show',
+      `${commit}:./${basename(filePath)}`,
+    ]);
+  } catch {
+    return undefined;
+  }
+}
+
+// Short content hash that identifies the revision of a rule a client saw
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex').slice(0, 12);
+}
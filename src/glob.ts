@@ -0,0 +1,101 @@
+// Minimal glob matching for rule file patterns (*, **, ?, [...], {a,b})
+
+const regExpCache = new Map<string, RegExp>();
+
+// Convert a glob pattern into an anchored regular expression
+export function globToRegExp(glob: string): RegExp {
+  const cached = regExpCache.get(glob);
+  if (cached) {
+    return cached;
+  }
+
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const atSegmentStart = i === 0 || glob[i - 1] === '/';
+        if (atSegmentStart && glob[i + 2] === '/') {
+          // "**/" matches zero or more directories
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        const body = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+        source += `[${body.startsWith('!') ? `^${body.slice(1)}` : body}]`;
+        i = end;
+      }
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+
+  const regExp = new RegExp(`^${source}$`);
+  regExpCache.set(glob, regExp);
+  return regExp;
+}
+
+// Normalize a file path to forward slashes without a leading './'
+export function normalizePath(path: string): string {
+  return path.replace(/\\/g, '/').replace(/^(\.\/)+/, '');
+}
+
+// Match a path against a glob; relative globs also match any trailing part
+// of the path, so absolute paths from the client still match "src/**/*.ts"
+export function matchesGlob(path: string, glob: string): boolean {
+  const normalized = normalizePath(path);
+  const pattern = normalizePath(glob);
+  const regExp = globToRegExp(pattern);
+
+  if (regExp.test(normalized)) {
+    return true;
+  }
+  if (pattern.startsWith('/')) {
+    return false;
+  }
+
+  const segments = normalized.split('/');
+  for (let i = 1; i < segments.length; i++) {
+    if (regExp.test(segments.slice(i).join('/'))) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+export function matchesAnyGlob(path: string, globs: string[]): boolean {
+  return globs.some((glob) => matchesGlob(path, glob));
+}
+
+// Check a path against include and exclude globs (exclude wins)
+export function isPathSelected(
+  path: string,
+  include: string[],
+  exclude: string[]
+): boolean {
+  return matchesAnyGlob(path, include) && !matchesAnyGlob(path, exclude);
+}
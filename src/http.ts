@@ -0,0 +1,332 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import {
+  createServer as createHttpServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from 'http';
+import type { AddressInfo } from 'net';
+import type { Logger } from './logger.js';
+
+export interface HttpServerOptions {
+  host: string;
+  // Port to listen on (0 picks a free port)
+  port: number;
+  // Require "Authorization: Bearer <token>" on MCP requests when set
+  authToken?: string | undefined;
+  // Close sessions without requests for this many milliseconds
+  sessionTimeout?: number | undefined;
+  // Host names accepted in the Host header, and for the Origin header
+  // (default: loopback names and the listening host)
+  allowedHosts?: string[] | undefined;
+  // Further origins (e.g. https://app.example.com) accepted in the Origin
+  // header
+  allowedOrigins?: string[] | undefined;
+  // Create a fresh MCP server for each session
+  createServer: () => Server;
+  // Extra fields reported by the health endpoint
+  health?: () => Promise<Record<string, unknown>>;
+  logger: Logger;
+}
+
+export interface HttpServerHandle {
+  url: string;
+  close(): Promise<void>;
+}
+
+const MCP_PATH = '/mcp';
+const HEALTH_PATH = '/health';
+
+const DEFAULT_SESSION_TIMEOUT = 30 * 60 * 1000;
+const DEFAULT_ALLOWED_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+// Addresses that listen on every interface and name no host
+const WILDCARD_HOSTS = ['0.0.0.0', '::', ''];
+// Largest accepted request body (MCP messages are small)
+const MAX_BODY_SIZE = 1024 * 1024;
+const BODY_TOO_LARGE = Symbol('body too large');
+// Longest interval between checks for idle sessions
+const MAX_EXPIRY_INTERVAL = 60 * 1000;
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string
+) {
+  sendJson(res, status, {
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null,
+  });
+}
+
+// Compare the bearer token in constant time
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization ?? '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return false;
+  }
+
+  const given = Buffer.from(match[1]!);
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// Host name of a Host header or origin in lower case, IPv6 addresses in
+// brackets (undefined when it cannot be parsed)
+function toHostName(value: string): string | undefined {
+  try {
+    return new URL(value.includes('://') ? value : `http://${value}`).hostname;
+  } catch {
+    return undefined;
+  }
+}
+
+// Check the Host and Origin headers, so that a web page whose domain
+// resolves to this server (DNS rebinding) cannot use it. Clients outside
+// browsers send no Origin header
+function isAllowedRequest(
+  req: IncomingMessage,
+  allowedHosts: string[],
+  allowedOrigins: string[]
+): boolean {
+  const host = toHostName(req.headers.host ?? '');
+  if (!host || !allowedHosts.includes(host)) {
+    return false;
+  }
+
+  const origin = req.headers.origin;
+  if (origin === undefined) {
+    return true;
+  }
+  const originHost = toHostName(origin);
+  return (
+    (originHost !== undefined && allowedHosts.includes(originHost)) ||
+    allowedOrigins.includes(origin.replace(/\/$/, ''))
+  );
+}
+
+// Read and parse a JSON request body (undefined when the body is empty).
+// Bodies larger than MAX_BODY_SIZE are read to the end but not kept, so the
+// client still receives the response; BODY_TOO_LARGE is returned for them
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_SIZE) {
+      chunks.length = 0;
+    } else {
+      chunks.push(chunk as Buffer);
+    }
+  }
+  if (size > MAX_BODY_SIZE) {
+    return BODY_TOO_LARGE;
+  }
+
+  const text = Buffer.concat(chunks).toString('utf-8');
+  return text.trim() ? JSON.parse(text) : undefined;
+}
+
+// Serve MCP over Streamable HTTP (with SSE streams) so several clients can
+// share one rules server; every session gets its own MCP server instance
+export async function startHttpServer(
+  options: HttpServerOptions
+): Promise<HttpServerHandle> {
+  const { logger } = options;
+  const sessionTimeout = options.sessionTimeout ?? DEFAULT_SESSION_TIMEOUT;
+  const listenHost = options.host.includes(':')
+    ? `[${options.host}]`
+    : options.host;
+  const allowedHosts = (options.allowedHosts ?? DEFAULT_ALLOWED_HOSTS)
+    .concat(WILDCARD_HOSTS.includes(options.host) ? [] : [listenHost])
+    .map((host) => host.toLowerCase());
+  const allowedOrigins = (options.allowedOrigins ?? []).map((origin) =>
+    origin.replace(/\/$/, '')
+  );
+  const sessions = new Map<string, StreamableHTTPServerTransport>();
+  // Open requests (e.g. SSE streams) of each session and when the last one
+  // ended; sessions without open requests expire after sessionTimeout
+  const activity = new Map<string, { open: number; since: number }>();
+
+  const trackRequest = (id: string, res: ServerResponse) => {
+    const entry = activity.get(id);
+    if (!entry) {
+      return;
+    }
+    entry.open++;
+    res.once('close', () => {
+      entry.open--;
+      entry.since = Date.now();
+    });
+  };
+
+  const handleMcpRequest = async (
+    req: IncomingMessage,
+    res: ServerResponse
+  ) => {
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await readJsonBody(req);
+      } catch {
+        sendJsonRpcError(res, 400, -32700, 'Parse error');
+        return;
+      }
+      if (body === BODY_TOO_LARGE) {
+        sendJsonRpcError(res, 413, -32000, 'Request body too large');
+        return;
+      }
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const transport = sessions.get(sessionId);
+      if (!transport) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      trackRequest(sessionId, res);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID');
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, transport);
+        activity.set(id, { open: 0, since: Date.now() });
+        trackRequest(id, res);
+        // A session ID is all it takes to use a session, so it is not logged
+        logger.info(`HTTP session started (${sessions.size} open)`);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        activity.delete(transport.sessionId);
+        logger.info(`HTTP session closed (${sessions.size} open)`);
+      }
+    };
+
+    const server = options.createServer();
+    try {
+      // The SDK's optional callbacks do not satisfy exactOptionalPropertyTypes
+      await server.connect(transport as Transport);
+      await transport.handleRequest(req, res, body);
+    } finally {
+      // Without a session (the initialize request was rejected) nothing can
+      // reach this server again, so close it
+      if (!transport.sessionId || !sessions.has(transport.sessionId)) {
+        await server.close();
+      }
+    }
+  };
+
+  // Close sessions whose clients went away without ending them
+  const expireSessions = () => {
+    const now = Date.now();
+    activity.forEach((entry, id) => {
+      if (entry.open === 0 && now - entry.since >= sessionTimeout) {
+        logger.info('Closing idle HTTP session');
+        sessions
+          .get(id)
+          ?.close()
+          .catch((error) => {
+            logger.error('Error closing idle HTTP session', error);
+          });
+        sessions.delete(id);
+        activity.delete(id);
+      }
+    });
+  };
+  const expiryTimer = setInterval(
+    expireSessions,
+    Math.min(sessionTimeout, MAX_EXPIRY_INTERVAL)
+  );
+  expiryTimer.unref();
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+    if (pathname === HEALTH_PATH && req.method === 'GET') {
+      sendJson(res, 200, {
+        status: 'ok',
+        ...(await options.health?.()),
+        sessions: sessions.size,
+      });
+      return;
+    }
+
+    if (pathname !== MCP_PATH) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    if (!isAllowedRequest(req, allowedHosts, allowedOrigins)) {
+      sendJsonRpcError(
+        res,
+        403,
+        -32000,
+        'Forbidden: host or origin not allowed'
+      );
+      return;
+    }
+
+    if (options.authToken && !isAuthorized(req, options.authToken)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJsonRpcError(res, 401, -32001, 'Unauthorized');
+      return;
+    }
+
+    await handleMcpRequest(req, res);
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      logger.error('Error handling HTTP request', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+
+  return {
+    url: `http://${listenHost}:${port}${MCP_PATH}`,
+    close: async () => {
+      clearInterval(expiryTimer);
+      await Promise.all(
+        [...sessions.values()].map((transport) => transport.close())
+      );
+      await new Promise<void>((resolve, reject) => {
+        httpServer.close((error) => (error ? reject(error) : resolve()));
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
@@ -0,0 +1,27 @@
+// How rule keys are derived from file paths:
+// - default: general/README.md -> GENERAL-OVERVIEW, backend/api/errors.md -> BACKEND/API-ERRORS
+// - path: general/README.md -> GENERAL/README, backend/api/errors.md -> BACKEND/API/ERRORS
+export type KeyNaming = 'default' | 'path';
+
+// Build the rule key for a rule file from the directories it is nested in.
+// The extension is dropped, as is the leading dot of files like .cursorrules
+export function toRuleKey(
+  directories: string[],
+  file: string,
+  naming: KeyNaming = 'default'
+): string {
+  const stem = file.replace(/^\./, '').replace(/\.[^.]*$/, '');
+
+  if (naming === 'path') {
+    return [...directories, stem]
+      .map((segment) => segment.toUpperCase())
+      .join('/');
+  }
+
+  // README becomes OVERVIEW, others keep their filename (without extension)
+  const name = stem === 'README' ? 'OVERVIEW' : stem.toUpperCase();
+  const parents = directories.slice(0, -1).map((dir) => dir.toUpperCase());
+  const toolName = directories[directories.length - 1]?.toUpperCase();
+
+  return [...parents, toolName ? `${toolName}-${name}` : name].join('/');
+}
@@ -0,0 +1,214 @@
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { dirname, join, relative, resolve, sep } from 'path';
+import { listRuleFiles } from './cache.js';
+import { toRuleKey, type KeyNaming } from './keys.js';
+import { BUILTIN_LOADERS, findLoader, type RuleLoader } from './loaders.js';
+import { splitLocale } from './locales.js';
+import { buildSectionTree, type SectionNode } from './markdown.js';
+
+export interface Diagnostic {
+  file: string;
+  line: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface LintOptions {
+  keyNaming?: KeyNaming;
+  // Locales of translated rule files (see splitLocale)
+  locales?: string[];
+  // Globs selecting the rule files to check (default: every supported file)
+  include?: string[];
+  exclude?: string[];
+  loaders?: RuleLoader[];
+}
+
+const LINK_PATTERN =
+  /!?\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+["'][^"']*["'])?\s*\)/g;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+// Format a diagnostic as file:line: severity: message
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  return `${diagnostic.file}:${diagnostic.line}: ${diagnostic.severity}: ${diagnostic.message}`;
+}
+
+// Report relative links that point at files which do not exist
+function lintLinks(
+  rulesDir: string,
+  filePath: string,
+  body: string,
+  lineOffset: number,
+  diagnostics: Diagnostic[]
+) {
+  let fence: string | undefined;
+
+  body.split(/\r?\n/).forEach((line, index) => {
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fenceMatch) {
+      if (!fence) {
+        fence = fenceMatch[1];
+      } else if (fence === fenceMatch[1]) {
+        fence = undefined;
+      }
+      return;
+    }
+    if (fence) {
+      return;
+    }
+
+    const text = line.replace(/`[^`]*`/g, '');
+    for (const match of text.matchAll(LINK_PATTERN)) {
+      const target = match[1] ?? '';
+      if (
+        !target ||
+        target.startsWith('#') ||
+        /^[a-z][\w+.-]*:/i.test(target)
+      ) {
+        continue;
+      }
+
+      let path = target.replace(/[#?].*$/, '');
+      try {
+        path = decodeURI(path);
+      } catch {
+        // Keep the raw target when it is not valid percent-encoding
+      }
+      const resolved = path.startsWith('/')
+        ? join(rulesDir, path)
+        : resolve(dirname(filePath), path);
+
+      if (!existsSync(resolved)) {
+        diagnostics.push({
+          file: filePath,
+          line: index + lineOffset + 1,
+          severity: 'error',
+          message: `Broken link: ${target}`,
+        });
+      }
+    }
+  });
+}
+
+// Report headings that have neither content nor sub-sections
+function lintEmptySections(
+  filePath: string,
+  nodes: SectionNode[],
+  lineOffset: number,
+  diagnostics: Diagnostic[]
+) {
+  nodes.forEach((node) => {
+    const body = node.text.split(/\r?\n/).slice(1).join('\n').trim();
+    if (!body) {
+      diagnostics.push({
+        file: filePath,
+        line: node.line + lineOffset,
+        severity: 'error',
+        message: `Empty section: ${node.title}`,
+      });
+    }
+    lintEmptySections(filePath, node.children, lineOffset, diagnostics);
+  });
+}
+
+// Check every rules directory layer and return the problems found
+export async function lintRules(
+  rulesDirs: string[],
+  options: LintOptions = {}
+): Promise<Diagnostic[]> {
+  const diagnostics: Diagnostic[] = [];
+  const {
+    include = ['**/*'],
+    exclude = [],
+    loaders = BUILTIN_LOADERS,
+    locales = [],
+  } = options;
+
+  for (const rulesDir of rulesDirs) {
+    if (!existsSync(rulesDir)) {
+      diagnostics.push({
+        file: rulesDir,
+        line: 1,
+        severity: 'error',
+        message: 'Rules directory not found',
+      });
+      continue;
+    }
+
+    const keys = new Map<string, string>();
+
+    // Sort by code point so duplicate reports do not depend on the locale
+    const files = (
+      await listRuleFiles(
+        rulesDir,
+        { include, exclude, loaders },
+        (dir, error) => {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          diagnostics.push({
+            file: dir,
+            line: 1,
+            severity: 'error',
+            message: `Cannot read directory: ${message}`,
+          });
+        }
+      )
+    ).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+
+    for (const relativePath of files) {
+      const directories = relativePath.split(sep);
+      const file = directories.pop()!;
+      const filePath = join(rulesDir, relativePath);
+      const loader = findLoader(loaders, file)!;
+      const { body, errors, lineOffset } = loader.load(
+        await readFile(filePath, 'utf-8'),
+        filePath
+      );
+
+      errors.forEach((message) => {
+        diagnostics.push({
+          file: filePath,
+          line: 1,
+          severity: 'error',
+          message,
+        });
+      });
+
+      // Translations share the key of their source file
+      const { file: sourceFile, locale } = splitLocale(file, locales);
+      const ruleKey = toRuleKey(directories, sourceFile, options.keyNaming);
+      const key = locale ? `${ruleKey} (${locale})` : ruleKey;
+      const existing = keys.get(key);
+      if (existing) {
+        diagnostics.push({
+          file: filePath,
+          line: 1,
+          severity: 'error',
+          message: `Duplicate rule key ${key} (also produced by ${relative(rulesDir, existing)})`,
+        });
+      } else {
+        keys.set(key, filePath);
+      }
+
+      lintLinks(rulesDir, filePath, body, lineOffset, diagnostics);
+      lintEmptySections(
+        filePath,
+        buildSectionTree(body),
+        lineOffset,
+        diagnostics
+      );
+    }
+  }
+
+  // Group by file and order by line, keeping rules directory order
+  const fileOrder = new Map<string, number>();
+  diagnostics.forEach((diagnostic) => {
+    if (!fileOrder.has(diagnostic.file)) {
+      fileOrder.set(diagnostic.file, fileOrder.size);
+    }
+  });
+
+  return diagnostics.sort(
+    (a, b) => fileOrder.get(a.file)! - fileOrder.get(b.file)! || a.line - b.line
+  );
+}
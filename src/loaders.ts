@@ -0,0 +1,337 @@
+// Rule loaders: normalize rule sources of different formats into markdown
+import { resolve } from 'path';
+import { pathToFileURL } from 'url';
+import {
+  normalizeMetadata,
+  parseFrontMatter,
+  type RuleMetadata,
+} from './frontmatter.js';
+import { globToRegExp } from './glob.js';
+
+// A rule source normalized to metadata plus a markdown body
+export interface LoadedRule {
+  metadata: RuleMetadata;
+  body: string;
+  // Problems found while loading, e.g. invalid front matter
+  errors: string[];
+  // Number of source lines before the first body line (front matter, header)
+  lineOffset: number;
+}
+
+export type LoadRule = (source: string, filePath: string) => LoadedRule;
+
+export interface RuleLoader {
+  name: string;
+  // File name globs, e.g. "*.md" or ".cursorrules"
+  patterns: string[];
+  load: LoadRule;
+}
+
+// Count the lines of the source that precede the body
+function linesBefore(source: string, body: string): number {
+  return source.slice(0, source.length - body.length).split('\n').length - 1;
+}
+
+// Markdown with optional YAML front matter
+function loadMarkdown(source: string): LoadedRule {
+  const { metadata, body, errors } = parseFrontMatter(source);
+  return {
+    metadata,
+    body,
+    errors: errors.map((message) => `Front matter: ${message}`),
+    lineOffset: linesBefore(source, body),
+  };
+}
+
+// MDX: markdown whose leading single-line import/export statements are dropped
+function loadMdx(source: string): LoadedRule {
+  const rule = loadMarkdown(source);
+  const lines = rule.body.split('\n');
+  const start = lines.findIndex(
+    (line) => line.trim() !== '' && !/^(?:import|export)\s/.test(line)
+  );
+  const skipped = start === -1 ? lines.length : start;
+
+  return {
+    ...rule,
+    body: lines.slice(skipped).join('\n'),
+    lineOffset: rule.lineOffset + skipped,
+  };
+}
+
+// Markdown whose front matter lists the files it applies to in another field
+// (a comma-separated string or a list), which becomes applies_to
+function loadMarkdownWithGlobs(field: string): LoadRule {
+  return (source) => {
+    const rule = loadMarkdown(source);
+    const { [field]: globs, ...metadata } = rule.metadata;
+    if (globs === undefined) {
+      return rule;
+    }
+
+    const patterns =
+      typeof globs === 'string'
+        ? globs
+            .split(',')
+            .map((glob) => glob.trim())
+            .filter(Boolean)
+        : globs;
+    if (
+      !Array.isArray(patterns) ||
+      !patterns.every((glob) => typeof glob === 'string')
+    ) {
+      return {
+        ...rule,
+        metadata,
+        errors: [
+          ...rule.errors,
+          `Front matter: "${field}" must be a string or a list of strings`,
+        ],
+      };
+    }
+
+    return { ...rule, metadata: { applies_to: patterns, ...metadata } };
+  };
+}
+
+// Plain text, served as it is
+function loadText(source: string): LoadedRule {
+  return { metadata: {}, body: source, errors: [], lineOffset: 0 };
+}
+
+const ASCIIDOC_ATTRIBUTE_PATTERN = /^:([\w-]+):\s*(.*)$/;
+const ASCIIDOC_LIST_FIELDS = ['tags', 'applies_to'];
+const ADMONITION_PATTERN = /^(NOTE|TIP|IMPORTANT|WARNING|CAUTION):\s+(.*)$/;
+
+// Convert AsciiDoc inline markup that differs from markdown
+function convertAsciiDocInline(text: string): string {
+  const toLink = (_match: string, target: string, label: string) =>
+    `[${label || target}](${target})`;
+
+  return text
+    .replace(/\blink:([^\s[\]]+)\[([^\]]*)\]/g, toLink)
+    .replace(/\b(https?:\/\/[^\s[\]]+)\[([^\]]*)\]/g, toLink)
+    .replace(/(^|[^\w*])\*(?=\S)([^*]*?\S)\*(?![\w*])/g, '$1**$2**');
+}
+
+// Convert AsciiDoc block markup line by line, so that body lines keep
+// their position relative to the source
+function convertAsciiDoc(lines: string[]): string[] {
+  let block: string | undefined; // Delimiter of the open listing block
+  let language = '';
+
+  return lines.map((line) => {
+    if (block) {
+      if (line === block) {
+        block = undefined;
+        return '```';
+      }
+      return line;
+    }
+
+    const sourceBlock = line.match(/^\[source(?:,\s*([\w+-]+))?[^\]]*\]$/);
+    if (sourceBlock) {
+      language = sourceBlock[1] ?? '';
+      return '';
+    }
+    if (line === '----' || line === '....') {
+      block = line;
+      const fence = `\`\`\`${language}`;
+      language = '';
+      return fence;
+    }
+    language = '';
+
+    if (line.startsWith('//')) {
+      return '';
+    }
+
+    const heading = line.match(/^(={1,6})\s+(.*)$/);
+    if (heading) {
+      return `${'#'.repeat(heading[1]!.length)} ${heading[2]}`;
+    }
+
+    const admonition = line.match(ADMONITION_PATTERN);
+    if (admonition) {
+      const label = admonition[1]!;
+      return `> **${label[0]}${label.slice(1).toLowerCase()}:** ${convertAsciiDocInline(admonition[2]!)}`;
+    }
+
+    const item = line.match(/^(\*{1,5}|\.{1,5})\s+(.*)$/);
+    if (item) {
+      const marker = item[1]!;
+      return `${'  '.repeat(marker.length - 1)}${marker[0] === '*' ? '-' : '1.'} ${convertAsciiDocInline(item[2]!)}`;
+    }
+
+    return convertAsciiDocInline(line);
+  });
+}
+
+// AsciiDoc: attribute entries of the document header (":tags: a, b") become
+// metadata and the markup is converted to markdown
+function loadAsciiDoc(source: string): LoadedRule {
+  const lines = source.split(/\r?\n/);
+  const title = lines[0]?.match(/^=\s+(.*)$/)?.[1];
+  const data: Record<string, unknown> = {};
+  let index = title === undefined ? 0 : 1;
+
+  for (; index < lines.length; index++) {
+    const attribute = lines[index]!.match(ASCIIDOC_ATTRIBUTE_PATTERN);
+    if (!attribute) {
+      break;
+    }
+
+    const [, name, value] = attribute as [string, string, string];
+    data[name] = ASCIIDOC_LIST_FIELDS.includes(name)
+      ? value
+          .split(',')
+          .map((item) => item.trim())
+          .filter(Boolean)
+      : name === 'priority' && value.trim() !== '' && !isNaN(Number(value))
+        ? Number(value)
+        : value;
+  }
+
+  const errors: string[] = [];
+  const metadata = normalizeMetadata(data, errors);
+  const body = convertAsciiDoc(lines.slice(index));
+  if (title !== undefined) {
+    body.unshift(`# ${title}`);
+  }
+
+  return {
+    metadata,
+    body: body.join('\n'),
+    errors: errors.map((message) => `Document attributes: ${message}`),
+    lineOffset: title === undefined ? index : index - 1,
+  };
+}
+
+// Built-in loaders; the first loader with a matching pattern is used
+export const BUILTIN_LOADERS: RuleLoader[] = [
+  // GitHub Copilot instructions (applyTo) and Cursor rules (globs)
+  {
+    name: 'copilot',
+    patterns: ['*.instructions.md'],
+    load: loadMarkdownWithGlobs('applyTo'),
+  },
+  { name: 'cursor', patterns: ['*.mdc'], load: loadMarkdownWithGlobs('globs') },
+  { name: 'markdown', patterns: ['*.md', '*.markdown'], load: loadMarkdown },
+  { name: 'mdx', patterns: ['*.mdx'], load: loadMdx },
+  {
+    name: 'text',
+    patterns: ['*.txt', '.cursorrules', '.windsurfrules', '.clinerules'],
+    load: loadText,
+  },
+  { name: 'asciidoc', patterns: ['*.adoc', '*.asciidoc'], load: loadAsciiDoc },
+];
+
+// Find the loader for a file name. As in shell globs, wildcards do not match
+// the leading dot of hidden files, so those need a pattern of their own
+export function findLoader(
+  loaders: RuleLoader[],
+  file: string
+): RuleLoader | undefined {
+  return loaders.find((loader) =>
+    loader.patterns.some(
+      (pattern) =>
+        (!file.startsWith('.') || pattern.startsWith('.')) &&
+        globToRegExp(pattern).test(file)
+    )
+  );
+}
+
+// Loader modules are referenced by path, e.g. "./loaders/rst.js"
+export function isLoaderModule(target: string): boolean {
+  return /[\\/]/.test(target) || /\.[cm]?js$/.test(target);
+}
+
+// Wrap the function exported by a loader module. It returns the markdown
+// body, or an object with a body and metadata; errors are reported per file
+function wrapLoaderModule(
+  target: string,
+  load: (source: string, filePath: string) => unknown
+): LoadRule {
+  return (source, filePath) => {
+    try {
+      const result = load(source, filePath);
+      if (typeof result === 'string') {
+        return loadText(result);
+      }
+
+      const { metadata = {}, body = '' } = (result ?? {}) as {
+        metadata?: Record<string, unknown>;
+        body?: string;
+      };
+      const errors: string[] = [];
+      return {
+        metadata: normalizeMetadata(metadata, errors),
+        body: String(body),
+        errors: errors.map((message) => `Metadata: ${message}`),
+        lineOffset: 0,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        metadata: {},
+        body: '',
+        errors: [`Loader ${target} failed: ${message}`],
+        lineOffset: 0,
+      };
+    }
+  };
+}
+
+// Create the loader registry from the "loaders" option, which maps file name
+// globs to a built-in loader name or a loader module. Configured loaders take
+// precedence over the built-in ones
+export async function createLoaders(
+  definitions: Record<string, string>
+): Promise<{ loaders: RuleLoader[]; errors: string[] }> {
+  const loaders: RuleLoader[] = [];
+  const errors: string[] = [];
+
+  for (const [pattern, target] of Object.entries(definitions)) {
+    const builtin = BUILTIN_LOADERS.find((loader) => loader.name === target);
+    if (builtin) {
+      loaders.push({ name: target, patterns: [pattern], load: builtin.load });
+      continue;
+    }
+
+    if (!isLoaderModule(target)) {
+      errors.push(
+        `"loaders.${pattern}" must be one of ${BUILTIN_LOADERS.map((loader) => loader.name).join(', ')} or a module path`
+      );
+      continue;
+    }
+
+    try {
+      const module = (await import(pathToFileURL(resolve(target)).href)) as {
+        default?: unknown;
+        load?: unknown;
+      };
+      const load =
+        typeof module.default === 'function' ? module.default : module.load;
+      if (typeof load !== 'function') {
+        errors.push(
+          `"loaders.${pattern}": ${target} does not export a load function`
+        );
+        continue;
+      }
+
+      loaders.push({
+        name: target,
+        patterns: [pattern],
+        load: wrapLoaderModule(
+          target,
+          load as (source: string, filePath: string) => unknown
+        ),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      errors.push(`"loaders.${pattern}": cannot import ${target}: ${message}`);
+    }
+  }
+
+  return { loaders: [...loaders, ...BUILTIN_LOADERS], errors };
+}
@@ -0,0 +1,109 @@
+// Localized rule files carry a locale before their extension:
+// COMMIT-MESSAGES.ko.md is the Korean translation of COMMIT-MESSAGES.md.
+// Only configured locales count, as rule names such as node.js.md contain
+// dots too
+import { stat } from 'fs/promises';
+import { join } from 'path';
+import { getFileHistory } from './git.js';
+import type { Diagnostic } from './lint.js';
+
+// A two-letter language code with optional subtags, e.g. ko, pt-BR, zh-Hant
+export const LOCALE_PATTERN = /^[a-z]{2}(?:-[A-Za-z0-9]{2,8})*$/;
+
+// Split one of the given locales off a file name: COMMIT-MESSAGES.ko.md ->
+// { file: 'COMMIT-MESSAGES.md', locale: 'ko' } when ko is listed
+export function splitLocale(
+  file: string,
+  locales: string[]
+): {
+  file: string;
+  locale: string | undefined;
+} {
+  const match = file.match(/^(.+)\.([^.]+)(\.[^.]+)$/);
+  if (
+    !match ||
+    !locales.some((locale) => locale.toLowerCase() === match[2]!.toLowerCase())
+  ) {
+    return { file, locale: undefined };
+  }
+
+  return { file: `${match[1]}${match[3]}`, locale: match[2] };
+}
+
+// Locales to try for a requested locale, most specific first:
+// pt-BR -> pt-br, pt
+function getFallbacks(locale: string): string[] {
+  const parts = locale.toLowerCase().split('-');
+  return parts.map((_, index) =>
+    parts.slice(0, parts.length - index).join('-')
+  );
+}
+
+// Pick the variant of a rule to serve in a locale: the closest translation,
+// else the default language file, else the first translation
+export function selectTranslation<T extends { locale: string | undefined }>(
+  variants: T[],
+  locale: string | undefined
+): T {
+  const sorted = [...variants].sort((a, b) => {
+    const [x, y] = [a.locale ?? '', b.locale ?? ''];
+    return x < y ? -1 : x > y ? 1 : 0;
+  });
+
+  for (const candidate of locale ? getFallbacks(locale) : []) {
+    const match = sorted.find(
+      (variant) => variant.locale?.toLowerCase() === candidate
+    );
+    if (match) {
+      return match;
+    }
+  }
+
+  return sorted.find((variant) => !variant.locale) ?? sorted[0]!;
+}
+
+// Time a file last changed: its last commit in git, otherwise (or while it
+// is not committed) its modification time
+async function getChangeTime(filePath: string): Promise<number> {
+  try {
+    const [last] = await getFileHistory(filePath, 1);
+    if (last) {
+      return Date.parse(last.date);
+    }
+  } catch {
+    // Not in a git work tree
+  }
+  return (await stat(filePath)).mtimeMs;
+}
+
+// Warn about translations that changed before their source file did
+export async function lintTranslations(
+  files: { filePath: string; file: string }[],
+  locales: string[]
+): Promise<Diagnostic[]> {
+  const paths = new Set(files.map((ruleFile) => ruleFile.filePath));
+  const diagnostics: Diagnostic[] = [];
+
+  for (const { filePath, file } of files) {
+    const { file: sourceFile, locale } = splitLocale(file, locales);
+    const sourcePath = join(filePath, '..', sourceFile);
+    if (!locale || !paths.has(sourcePath)) {
+      continue;
+    }
+
+    const [changed, sourceChanged] = await Promise.all([
+      getChangeTime(filePath),
+      getChangeTime(sourcePath),
+    ]);
+    if (changed < sourceChanged) {
+      diagnostics.push({
+        file: filePath,
+        line: 1,
+        severity: 'warning',
+        message: `Translation (${locale}) is older than its source ${sourceFile}`,
+      });
+    }
+  }
+
+  return diagnostics;
+}
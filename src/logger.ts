@@ -0,0 +1,124 @@
+import { appendFileSync } from 'fs';
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error', 'silent'] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+export type LogFormat = 'text' | 'json';
+
+export interface LoggerOptions {
+  level: LogLevel;
+  format: LogFormat;
+  // Append to this file instead of writing to stderr
+  file?: string | undefined;
+}
+
+// Receives every emitted log entry, e.g. to forward it as an MCP notification
+export type LogForwarder = (
+  level: Exclude<LogLevel, 'silent'>,
+  message: string,
+  data?: unknown
+) => void;
+
+export interface Logger {
+  debug(message: string, data?: unknown): void;
+  info(message: string, data?: unknown): void;
+  warn(message: string, data?: unknown): void;
+  error(message: string, data?: unknown): void;
+  setForwarder(forwarder: LogForwarder | undefined): void;
+}
+
+export function isLogLevel(value: string): value is LogLevel {
+  return (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+// Make errors and other values JSON-friendly
+function serialize(data: unknown): unknown {
+  if (data instanceof Error) {
+    return { name: data.name, message: data.message, stack: data.stack };
+  }
+  return data;
+}
+
+// Create a logger that never writes to stdout (stdout carries the MCP protocol).
+// Throws when the log file cannot be written
+export function createLogger(options: LoggerOptions): Logger {
+  let forwarder: LogForwarder | undefined;
+  let fileFailed = false;
+  const threshold = LOG_LEVELS.indexOf(options.level);
+
+  if (options.file) {
+    try {
+      appendFileSync(options.file, '');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Cannot write log file ${options.file}: ${message}`);
+    }
+  }
+
+  // Logging must never fail the caller, so lines that cannot be appended to
+  // the log file (e.g. on a full disk) go to stderr instead
+  const write = (line: string) => {
+    if (options.file) {
+      try {
+        appendFileSync(options.file, `${line}\n`);
+        fileFailed = false;
+        return;
+      } catch (error) {
+        if (!fileFailed) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          process.stderr.write(
+            `Cannot write log file ${options.file}, logging to stderr: ${message}\n`
+          );
+        }
+        fileFailed = true;
+      }
+    }
+    process.stderr.write(`${line}\n`);
+  };
+
+  const log = (
+    level: Exclude<LogLevel, 'silent'>,
+    message: string,
+    data?: unknown
+  ) => {
+    if (LOG_LEVELS.indexOf(level) < threshold) {
+      return;
+    }
+
+    const time = new Date().toISOString();
+    const payload = data === undefined ? undefined : serialize(data);
+
+    if (options.format === 'json') {
+      write(
+        JSON.stringify({
+          time,
+          level,
+          message,
+          ...(payload === undefined ? {} : { data: payload }),
+        })
+      );
+    } else {
+      const details =
+        payload === undefined
+          ? ''
+          : ` ${payload instanceof Object ? JSON.stringify(payload) : payload}`;
+      write(`${time} ${level.toUpperCase().padEnd(5)} ${message}${details}`);
+    }
+
+    try {
+      forwarder?.(level, message, payload);
+    } catch {
+      // Forwarding is best effort and must never break logging
+    }
+  };
+
+  return {
+    debug: (message, data) => log('debug', message, data),
+    info: (message, data) => log('info', message, data),
+    warn: (message, data) => log('warn', message, data),
+    error: (message, data) => log('error', message, data),
+    setForwarder: (next) => {
+      forwarder = next;
+    },
+  };
+}
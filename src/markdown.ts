@@ -0,0 +1,163 @@
+// A run of markdown text under a heading
+export interface MarkdownSection {
+  // Titles of the heading and its ancestors, outermost first
+  headingPath: string[];
+  // Heading level (1-6), or 0 for text before the first heading
+  level: number;
+  // 1-based line number of the heading (or of the first line)
+  line: number;
+  text: string;
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+// Split a markdown document into flat sections, ignoring headings in code fences
+export function splitSections(content: string): MarkdownSection[] {
+  const sections: MarkdownSection[] = [];
+  const stack: { level: number; title: string }[] = [];
+  let current: MarkdownSection = {
+    headingPath: [],
+    level: 0,
+    line: 1,
+    text: '',
+  };
+  let currentLines: string[] = [];
+  let fence: string | undefined;
+
+  const flush = () => {
+    current.text = currentLines.join('\n');
+    if (current.level > 0 || current.text.trim()) {
+      sections.push(current);
+    }
+  };
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fenceMatch) {
+      if (!fence) {
+        fence = fenceMatch[1];
+      } else if (fence === fenceMatch[1]) {
+        fence = undefined;
+      }
+    }
+
+    const heading = fence || fenceMatch ? null : line.match(HEADING_PATTERN);
+    if (!heading) {
+      currentLines.push(line);
+      return;
+    }
+
+    flush();
+
+    const level = heading[1]!.length;
+    const title = heading[2]!;
+    while (stack.length > 0 && stack[stack.length - 1]!.level >= level) {
+      stack.pop();
+    }
+    stack.push({ level, title });
+
+    current = {
+      headingPath: stack.map((entry) => entry.title),
+      level,
+      line: index + 1,
+      text: '',
+    };
+    currentLines = [line];
+  });
+
+  flush();
+
+  return sections;
+}
+
+// A heading together with everything nested below it
+export interface SectionNode {
+  title: string;
+  level: number;
+  line: number;
+  headingPath: string[];
+  // Markdown of the heading, its body and all nested sections
+  text: string;
+  children: SectionNode[];
+}
+
+// Parse a markdown document into a tree of headings
+export function buildSectionTree(content: string): SectionNode[] {
+  const roots: SectionNode[] = [];
+  const stack: SectionNode[] = [];
+  const ownText = new Map<SectionNode, string>();
+
+  splitSections(content).forEach((section) => {
+    if (section.level === 0) {
+      return;
+    }
+
+    const node: SectionNode = {
+      title: section.headingPath[section.headingPath.length - 1] ?? '',
+      level: section.level,
+      line: section.line,
+      headingPath: section.headingPath,
+      text: '',
+      children: [],
+    };
+    ownText.set(node, section.text);
+
+    while (stack.length > 0 && stack[stack.length - 1]!.level >= node.level) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1];
+    (parent ? parent.children : roots).push(node);
+    stack.push(node);
+  });
+
+  const fillText = (node: SectionNode): string => {
+    node.text = [ownText.get(node) ?? '', ...node.children.map(fillText)].join(
+      '\n'
+    );
+    return node.text;
+  };
+  roots.forEach(fillText);
+
+  return roots;
+}
+
+// Find the first section whose heading path ends with the given titles
+export function findSection(
+  tree: SectionNode[],
+  path: string[]
+): SectionNode | undefined {
+  const wanted = path.map((title) => title.trim().toLowerCase());
+  if (wanted.length === 0) {
+    return undefined;
+  }
+
+  for (const node of tree) {
+    const titles = node.headingPath.map((title) => title.toLowerCase());
+    const suffix = titles.slice(titles.length - wanted.length);
+    if (
+      suffix.length === wanted.length &&
+      suffix.every((title, index) => title === wanted[index])
+    ) {
+      return node;
+    }
+
+    const found = findSection(node.children, path);
+    if (found) {
+      return found;
+    }
+  }
+
+  return undefined;
+}
+
+// Render a heading tree as an indented table of contents
+export function formatTableOfContents(
+  tree: SectionNode[],
+  depth = 0
+): string[] {
+  return tree.flatMap((node) => [
+    `${'  '.repeat(depth)}- ${node.title}`,
+    ...formatTableOfContents(node.children, depth + 1),
+  ]);
+}
@@ -0,0 +1,29 @@
+// Prompt arguments: {{ args.name }} placeholders filled in by prompts/get
+
+export const PROMPT_ARGUMENT_PREFIX = 'args.';
+
+const ARGUMENT_PATTERN = /\{\{\s*args\.([A-Za-z_][\w-]*)\s*\}\}/g;
+
+// List the argument names used in a text, in order of first use
+export function findPromptArguments(text: string): string[] {
+  return [
+    ...new Set([...text.matchAll(ARGUMENT_PATTERN)].map((match) => match[1]!)),
+  ];
+}
+
+// Replace argument placeholders with the given values, throwing when one is missing
+export function fillPromptArguments(
+  text: string,
+  values: Record<string, string>
+): string {
+  const missing = findPromptArguments(text).filter(
+    (name) => values[name] === undefined
+  );
+  if (missing.length > 0) {
+    throw new Error(`Missing prompt arguments: ${missing.join(', ')}`);
+  }
+
+  return text.replace(ARGUMENT_PATTERN, (_placeholder, name: string) =>
+    String(values[name])
+  );
+}
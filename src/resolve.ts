@@ -0,0 +1,112 @@
+// Loose matching of requested rule types to rule keys. Agents ask for
+// COMMIT_MESSAGES, commit-messages or GENERAL-COMMIT when they mean
+// GENERAL-COMMIT-MESSAGES, so case and separators are ignored, a contiguous
+// run of a key's words is enough, and rules can declare aliases
+import type { RuleMetadata } from './frontmatter.js';
+
+export type RuleTypeMatch =
+  | { status: 'found'; key: string }
+  | { status: 'ambiguous'; candidates: string[] }
+  | { status: 'unknown'; suggestions: string[] };
+
+// Number of closest keys suggested for an unknown rule type
+const MAX_SUGGESTIONS = 3;
+
+const SEPARATOR_PATTERN = /[\s_\-./\\]+/;
+
+function toWords(value: string): string[] {
+  return value.toUpperCase().split(SEPARATOR_PATTERN).filter(Boolean);
+}
+
+// Whether `words` appear in `within` in order and next to each other
+function containsRun(within: string[], words: string[]): boolean {
+  return within.some((_, start) =>
+    words.every((word, index) => within[start + index] === word)
+  );
+}
+
+// Every run of consecutive words, joined: [A, B, C] -> A, AB, ABC, B, BC, C
+function toRuns(words: string[]): string[] {
+  return words.flatMap((_, start) =>
+    words
+      .slice(start)
+      .map((_, length) => words.slice(start, start + length + 1).join(''))
+  );
+}
+
+// Levenshtein distance between two strings
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length]!;
+}
+
+// Resolve a requested rule type to one rule key. Matches are tried from
+// strictest to loosest: the exact key, the key or an alias ignoring case and
+// separators, then a run of words of the key or an alias. The first level
+// with matches decides; several matches there make the request ambiguous
+export function matchRuleType(
+  rules: Record<string, { metadata: RuleMetadata }>,
+  ruleType: string
+): RuleTypeMatch {
+  // Own keys only, so "constructor" or "toString" are not rules
+  if (Object.hasOwn(rules, ruleType)) {
+    return { status: 'found', key: ruleType };
+  }
+
+  const words = toWords(ruleType);
+  const names = Object.entries(rules).map(([key, rule]) => ({
+    key,
+    names: [key, ...(rule.metadata.aliases ?? [])].map(toWords),
+  }));
+  const levels = [
+    (name: string[]) => name.join('') === words.join(''),
+    (name: string[]) => containsRun(name, words),
+  ];
+
+  for (const matches of words.length > 0 ? levels : []) {
+    const keys = names
+      .filter((entry) => entry.names.some(matches))
+      .map((entry) => entry.key);
+    if (keys.length === 1) {
+      return { status: 'found', key: keys[0]! };
+    }
+    if (keys.length > 1) {
+      return { status: 'ambiguous', candidates: keys.sort() };
+    }
+  }
+
+  // Distance to the closest run of words, so COMMIT-MESAGES is close to
+  // GENERAL-COMMIT-MESSAGES
+  const distances = names.map((entry) => ({
+    key: entry.key,
+    distance: Math.min(
+      ...entry.names
+        .flatMap(toRuns)
+        .map((run) => editDistance(run, words.join('')))
+    ),
+  }));
+  return {
+    status: 'unknown',
+    suggestions: distances
+      .sort(
+        (a, b) =>
+          a.distance - b.distance ||
+          (a.key < b.key ? -1 : a.key > b.key ? 1 : 0)
+      )
+      .slice(0, MAX_SUGGESTIONS)
+      .map((entry) => entry.key),
+  };
+}
@@ -0,0 +1,142 @@
+import { splitSections } from './markdown.js';
+
+// A searchable unit: one markdown section of one rule
+interface IndexedSection {
+  key: string;
+  headingPath: string[];
+  text: string;
+  length: number;
+  termFrequencies: Map<string, number>;
+}
+
+export interface SearchIndex {
+  sections: IndexedSection[];
+  documentFrequencies: Map<string, number>;
+  averageLength: number;
+}
+
+export interface SearchMatch {
+  key: string;
+  headingPath: string[];
+  snippet: string;
+  score: number;
+}
+
+// BM25 tuning parameters
+const K1 = 1.2;
+const B = 0.75;
+const SNIPPET_RADIUS = 80;
+
+// Split text into lowercase word tokens (letters and digits in any script)
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+// Build a BM25 index over the sections of every rule
+export function createSearchIndex(
+  rules: { key: string; content: string }[]
+): SearchIndex {
+  const sections: IndexedSection[] = [];
+  const documentFrequencies = new Map<string, number>();
+  let totalLength = 0;
+
+  rules.forEach((rule) => {
+    splitSections(rule.content).forEach((section) => {
+      const tokens = tokenize(section.text);
+      const termFrequencies = new Map<string, number>();
+      tokens.forEach((token) => {
+        termFrequencies.set(token, (termFrequencies.get(token) ?? 0) + 1);
+      });
+      termFrequencies.forEach((_, term) => {
+        documentFrequencies.set(term, (documentFrequencies.get(term) ?? 0) + 1);
+      });
+
+      totalLength += tokens.length;
+      sections.push({
+        key: rule.key,
+        headingPath: section.headingPath,
+        text: section.text,
+        length: tokens.length,
+        termFrequencies,
+      });
+    });
+  });
+
+  return {
+    sections,
+    documentFrequencies,
+    averageLength: sections.length > 0 ? totalLength / sections.length : 0,
+  };
+}
+
+// Cut a single-line excerpt around the first occurrence of a query term
+export function createSnippet(text: string, terms: string[]): string {
+  const lower = text.toLowerCase();
+  const positions = terms
+    .map((term) => lower.indexOf(term))
+    .filter((position) => position >= 0);
+  const hit = positions.length > 0 ? Math.min(...positions) : 0;
+
+  const start = Math.max(0, hit - SNIPPET_RADIUS);
+  const end = Math.min(text.length, hit + SNIPPET_RADIUS);
+  const excerpt = text.slice(start, end).replace(/\s+/g, ' ').trim();
+
+  return `${start > 0 ? '…' : ''}${excerpt}${end < text.length ? '…' : ''}`;
+}
+
+// Rank rule sections against a free-text query
+export function searchRules(
+  index: SearchIndex,
+  query: string,
+  limit = 10
+): SearchMatch[] {
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const total = index.sections.length;
+  const phrase = query.trim().toLowerCase();
+  const matches: SearchMatch[] = [];
+
+  index.sections.forEach((section) => {
+    let score = 0;
+
+    terms.forEach((term) => {
+      const frequency = section.termFrequencies.get(term);
+      if (!frequency) {
+        return;
+      }
+
+      const documentFrequency = index.documentFrequencies.get(term) ?? 0;
+      const idf = Math.log(
+        1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5)
+      );
+      const norm =
+        K1 * (1 - B + (B * section.length) / (index.averageLength || 1));
+      score += (idf * (frequency * (K1 + 1))) / (frequency + norm);
+    });
+
+    if (score === 0) {
+      return;
+    }
+
+    // Boost exact phrase hits and hits in the heading itself
+    if (terms.length > 1 && section.text.toLowerCase().includes(phrase)) {
+      score *= 1.5;
+    }
+    const heading = section.headingPath.join(' ').toLowerCase();
+    if (terms.some((term) => heading.includes(term))) {
+      score *= 1.2;
+    }
+
+    matches.push({
+      key: section.key,
+      headingPath: section.headingPath,
+      snippet: createSnippet(section.text, terms),
+      score,
+    });
+  });
+
+  return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+}
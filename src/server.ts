@@ -0,0 +1,1233 @@
+// MCP server for the rules of a rule store: tools, resources and prompts
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { AsyncLocalStorage } from 'async_hooks';
+import { dirname, relative } from 'path';
+import { createAuditLog } from './audit.js';
+import { CHARS_PER_TOKEN, fitToBudget } from './budget.js';
+import { TOOL_NAMES, type RulesConfig, type ToolName } from './config.js';
+import {
+  getFileHistory,
+  getHeadCommit,
+  hashContent,
+  type CommitInfo,
+} from './git.js';
+import { matchesAnyGlob } from './glob.js';
+import { formatDiagnostic } from './lint.js';
+import { LOCALE_PATTERN } from './locales.js';
+import {
+  buildSectionTree,
+  findSection,
+  formatTableOfContents,
+} from './markdown.js';
+import { fillPromptArguments, findPromptArguments } from './prompts.js';
+import { matchRuleType } from './resolve.js';
+import { searchRules, type SearchMatch } from './search.js';
+import {
+  createRuleStore,
+  describeRule,
+  type Rule,
+  type RulesOptions,
+  type RuleStore,
+} from './store.js';
+
+// Resource URI scheme and MIME type used to publish rules as MCP resources
+const RULES_URI_SCHEME = 'rules://';
+const RULES_MIME_TYPE = 'text/markdown';
+
+// Number of commits listed by get_rule_history
+const DEFAULT_HISTORY_LIMIT = 10;
+const MAX_HISTORY_LIMIT = 50;
+
+// Number of matches returned by search
+const DEFAULT_SEARCH_LIMIT = 5;
+const MAX_SEARCH_LIMIT = 50;
+
+// Subtree selectors look like BACKEND/* or BACKEND/API/*
+const SUBTREE_SUFFIX = '/*';
+
+// The MCP server whose request is being handled, so that logs written while
+// handling it can be forwarded to that client only
+const requestServer = new AsyncLocalStorage<Server>();
+
+export interface RulesServer {
+  readonly config: RulesConfig;
+  readonly store: RuleStore;
+  // Create an MCP server with every handler registered. Each stdio process
+  // or HTTP session gets its own instance; rules and caches are shared
+  createServer(): Server;
+  // Create an MCP server and connect it to a transport
+  connect(transport: Transport): Promise<Server>;
+  // Close every MCP server and stop watching
+  close(): Promise<void>;
+}
+
+function toSubtreeKey(directories: string[]): string {
+  return `${directories.map((dir) => dir.toUpperCase()).join('/')}${SUBTREE_SUFFIX}`;
+}
+
+// Return the rules nested anywhere below a subtree selector
+function selectSubtree(rules: Record<string, Rule>, selector: string): Rule[] {
+  const prefix = selector.slice(0, -SUBTREE_SUFFIX.length).split('/');
+
+  return Object.values(rules).filter((rule) =>
+    prefix.every(
+      (segment, index) => rule.directories[index]?.toUpperCase() === segment
+    )
+  );
+}
+
+// Convert between rule keys and resource URIs. Each segment of a key is
+// encoded, so keys with spaces or other reserved characters stay unambiguous:
+// BACKEND/API GUIDE -> rules://BACKEND/API%20GUIDE
+function toResourceUri(key: string): string {
+  return `${RULES_URI_SCHEME}${key.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+function fromResourceUri(uri: string): string | undefined {
+  if (!uri.startsWith(RULES_URI_SCHEME)) {
+    return undefined;
+  }
+
+  try {
+    return uri
+      .slice(RULES_URI_SCHEME.length)
+      .split('/')
+      .map(decodeURIComponent)
+      .join('/');
+  } catch {
+    // Malformed percent-encoding
+    return undefined;
+  }
+}
+
+// Rule types: every rule key, every directory subtree and ALL
+function getAvailableRuleTypes(rules: Record<string, Rule>): string[] {
+  const subtrees = new Set<string>();
+
+  Object.values(rules).forEach((rule) => {
+    rule.directories.forEach((_, index) => {
+      subtrees.add(toSubtreeKey(rule.directories.slice(0, index + 1)));
+    });
+  });
+
+  return Object.keys(rules).concat([...subtrees].sort(), ['ALL']);
+}
+
+// Resolve a rule type (single key, subtree selector or ALL) to rules. A
+// single key is matched loosely (see matchRuleType)
+function selectRules(rules: Record<string, Rule>, ruleType: string): Rule[] {
+  if (ruleType === 'ALL') {
+    return Object.values(rules);
+  }
+  if (!ruleType.endsWith(SUBTREE_SUFFIX)) {
+    return [findRule(rules, ruleType)];
+  }
+
+  const selected = selectSubtree(rules, ruleType);
+  if (selected.length === 0) {
+    throw new Error(`Unknown rule type: ${ruleType}`);
+  }
+
+  return selected;
+}
+
+// Find the single rule a rule type refers to, suggesting the closest keys
+// when there is none
+function findRule(rules: Record<string, Rule>, ruleType: string): Rule {
+  const match = matchRuleType(rules, ruleType);
+
+  if (match.status === 'ambiguous') {
+    throw new Error(
+      `Ambiguous rule type: ${ruleType} matches ${match.candidates.join(', ')}`
+    );
+  }
+  if (match.status === 'unknown') {
+    throw new Error(
+      match.suggestions.length > 0
+        ? `Unknown rule type: ${ruleType}. Closest rule types: ${match.suggestions.join(', ')}`
+        : `Unknown rule type: ${ruleType}`
+    );
+  }
+
+  return rules[match.key]!;
+}
+
+// List the rules an ambiguous rule type matches, for the client to pick one
+function describeCandidates(ruleType: string, candidates: Rule[]): string {
+  return [
+    `Rule type "${ruleType}" matches several rules. Ask for one of them:`,
+    ...candidates.map((rule) => `- ${rule.key}: ${describeRule(rule)}`),
+  ].join('\n');
+}
+
+// Describe which layers (of all configured layers) a rule came from
+function describeLayers(rule: Rule, layers: string[]): string {
+  const [effective, ...earlier] = [...rule.layers]
+    .reverse()
+    .map((dir) => `layer ${layers.indexOf(dir) + 1} (${dir})`);
+  const relation = rule.metadata.merge && rule.metadata.merge !== 'replace';
+
+  return earlier.length > 0
+    ? `> Source: ${effective}, ${relation ? 'extending' : 'overriding'} ${earlier.join(', ')}`
+    : `> Source: ${effective}`;
+}
+
+// Render a rule's content, optionally prefixed with its source layers (when
+// the configured layers are given) and its version
+function formatRule(rule: Rule, layers?: string[], version?: string): string {
+  const notes = [layers ? describeLayers(rule, layers) : undefined, version]
+    .filter(Boolean)
+    .join('\n');
+  return notes ? `${notes}\n\n${rule.content}` : rule.content;
+}
+
+// Combine several rules into one markdown document
+function formatRules(
+  rules: Rule[],
+  layers?: string[],
+  versions = new Map<string, string>()
+): string {
+  return rules
+    .map(
+      (rule) =>
+        `## ${rule.key}\n\n${formatRule(rule, layers, versions.get(rule.key))}`
+    )
+    .join('\n\n---\n\n');
+}
+
+// Short fallback for a rule that does not fit a response budget
+function summarizeRule(rule: Rule): string {
+  const toc = formatTableOfContents(buildSectionTree(rule.content));
+  return toc.length > 0
+    ? `${describeRule(rule)}\n\nSections:\n${toc.join('\n')}`
+    : describeRule(rule);
+}
+
+// Read an optional limit argument as a whole number from 1 to `max`; other
+// values get the default
+function parseLimit(value: unknown, defaultLimit: number, max: number) {
+  return Math.min(
+    typeof value === 'number' && value >= 1 ? Math.floor(value) : defaultLimit,
+    max
+  );
+}
+
+// Read the optional max_tokens / max_chars budget as a character count
+function parseBudget(args: Record<string, unknown>): number | undefined {
+  const limits: number[] = [];
+
+  if (args.max_tokens !== undefined) {
+    if (typeof args.max_tokens !== 'number' || args.max_tokens <= 0) {
+      throw new Error('max_tokens must be a positive number');
+    }
+    limits.push(args.max_tokens * CHARS_PER_TOKEN);
+  }
+  if (args.max_chars !== undefined) {
+    if (typeof args.max_chars !== 'number' || args.max_chars <= 0) {
+      throw new Error('max_chars must be a positive number');
+    }
+    limits.push(args.max_chars);
+  }
+
+  return limits.length > 0 ? Math.min(...limits) : undefined;
+}
+
+// Read the optional locale argument
+function parseLocale(value: unknown): string | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string' || !LOCALE_PATTERN.test(value)) {
+    throw new Error(`Invalid locale: ${String(value)}`);
+  }
+  return value;
+}
+
+// Describe the locale argument with the translations that exist
+function describeLocales(
+  rules: Record<string, Rule>,
+  defaultLocale: string | undefined
+): string {
+  const locales = [
+    ...new Set(Object.values(rules).flatMap((rule) => rule.translations)),
+  ].sort();
+  const available =
+    locales.length > 0 ? ` Translations: ${locales.join(', ')}.` : '';
+
+  return `Optional language to return the rules in, e.g. "ko" (default: ${defaultLocale ?? 'the untranslated files'}). Rules without a translation are returned in their default language.${available}`;
+}
+
+// Render ranked search matches as a numbered list with snippets
+function formatMatches(matches: SearchMatch[]): string {
+  return matches
+    .map((match, index) => {
+      const location = [match.key, ...match.headingPath].join(' > ');
+      return `${index + 1}. ${location} (score ${match.score.toFixed(2)})\n   ${match.snippet}`;
+    })
+    .join('\n\n');
+}
+
+// Find the rules whose applies_to globs match any of the given files
+function selectRulesForFiles(
+  rules: Record<string, Rule>,
+  files: string[],
+  includeGeneral: boolean
+): { rule: Rule; files: string[] }[] {
+  return Object.values(rules).flatMap((rule) => {
+    const globs = rule.metadata.applies_to;
+    if (!globs || globs.length === 0) {
+      return includeGeneral ? [{ rule, files: [] }] : [];
+    }
+
+    const matched = files.filter((file) => matchesAnyGlob(file, globs));
+    return matched.length > 0 ? [{ rule, files: matched }] : [];
+  });
+}
+
+// A prompt that hands one rule, or a configured bundle of rules, to the user
+interface RulePrompt {
+  name: string;
+  title: string;
+  description: string;
+  text: string;
+}
+
+// Title of a rule: its front matter title, first heading or key
+function titleRule(rule: Rule): string {
+  const heading = rule.content.match(/^#{1,6}\s+(.+)$/m);
+  return rule.metadata.title || heading?.[1]?.trim() || rule.key;
+}
+
+// Accept a section path as 'Format > Scope' or as ['Format', 'Scope']
+function parseSectionPath(value: unknown): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const parts = Array.isArray(value)
+    ? value.map(String)
+    : typeof value === 'string'
+      ? value.split('>')
+      : [];
+  const path = parts.map((part) => part.trim()).filter(Boolean);
+
+  if (path.length === 0) {
+    throw new Error('section must be a heading path such as "Format > Scope"');
+  }
+
+  return path;
+}
+
+// Describe each available rule type for the tool input schema
+function describeRuleTypes(rules: Record<string, Rule>): string {
+  const lines = Object.values(rules).map((rule) => {
+    const tags = rule.metadata.tags?.length
+      ? ` [${rule.metadata.tags.join(', ')}]`
+      : '';
+    return `- ${rule.key}: ${describeRule(rule)}${tags}`;
+  });
+  lines.push('- <PATH>/*: All rules in a directory subtree, e.g. BACKEND/*');
+  lines.push('- ALL: All rules combined');
+
+  return `Type of rule to retrieve (case, separators and partial names are matched loosely):\n${lines.join('\n')}`;
+}
+
+// Create a rules server. Rules are read when the first client asks for them;
+// invalid options and loaders throw an error with one line per problem
+export async function createRulesServer(
+  options: RulesOptions = {}
+): Promise<RulesServer> {
+  const store = await createRuleStore(options);
+  const { config, logger } = store;
+  const auditLog = config.auditLog
+    ? createAuditLog(config.auditLog, logger)
+    : undefined;
+
+  // Initialized MCP servers, for notifications
+  const connectedServers = new Set<Server>();
+
+  // Resource URIs that each server's client has subscribed to
+  const resourceSubscriptions = new Map<Server, Set<string>>();
+
+  // Last commit of each rule file, valid while HEAD is unchanged
+  const ruleCommits = new Map<
+    string,
+    { head: string; commit: CommitInfo | undefined }
+  >();
+
+  // HEAD of each directory holding rule files (undefined outside git), kept
+  // for the cache TTL or until the watcher reports changed rules
+  const headCommits = new Map<
+    string,
+    { time: number; head: Promise<string | undefined> }
+  >();
+
+  // Name under which a built-in tool is exposed (see the toolNames option)
+  function toToolName(name: ToolName): string {
+    return config.toolNames[name] ?? name;
+  }
+
+  function fromToolName(exposedName: string): ToolName | undefined {
+    return TOOL_NAMES.find((name) => toToolName(name) === exposedName);
+  }
+
+  // Build the prompts: configured bundles first, then one prompt per rule
+  // (a bundle hides the rule prompt with the same name)
+  function getRulePrompts(rules: Record<string, Rule>): RulePrompt[] {
+    const bundles = Object.entries(config.prompts).map(([name, bundle]) => {
+      const selected = new Map<string, Rule>();
+      bundle.rules.forEach((ruleType) => {
+        try {
+          selectRules(rules, ruleType).forEach((rule) => {
+            selected.set(rule.key, rule);
+          });
+        } catch {
+          logger.warn(`Prompt ${name} refers to unknown rule type ${ruleType}`);
+        }
+      });
+
+      return {
+        name,
+        title: bundle.title ?? name,
+        description:
+          bundle.description ?? `Project rules: ${bundle.rules.join(', ')}`,
+        text: `Apply the following project rules:\n\n${formatRules([...selected.values()])}`,
+      };
+    });
+    const names = new Set(bundles.map((bundle) => bundle.name));
+
+    const rulePrompts = Object.values(rules)
+      .filter((rule) => !names.has(rule.key))
+      .map((rule) => ({
+        name: rule.key,
+        title: `Apply ${titleRule(rule)}`,
+        description: describeRule(rule),
+        text: `Apply the following project rules:\n\n${formatRule(rule)}`,
+      }));
+
+    return [...bundles, ...rulePrompts];
+  }
+
+  // Find the last commit that changed a rule file (as of a commit when
+  // given); without a commit, the result is cached until HEAD moves
+  async function getLastCommit(
+    filePath: string,
+    head: string,
+    commit?: string
+  ): Promise<CommitInfo | undefined> {
+    const cached = ruleCommits.get(filePath);
+    if (!commit && cached?.head === head) {
+      return cached.commit;
+    }
+
+    let last: CommitInfo | undefined;
+    try {
+      [last] = await getFileHistory(filePath, 1, commit);
+    } catch (error) {
+      logger.warn(`Cannot read the git history of ${filePath}`, error);
+    }
+    if (!commit) {
+      ruleCommits.set(filePath, { head, commit: last });
+    }
+    return last;
+  }
+
+  function getCachedHead(dir: string): Promise<string | undefined> {
+    const cached = headCommits.get(dir);
+    if (cached && Date.now() - cached.time <= config.cacheTtl) {
+      return cached.head;
+    }
+
+    const head = getHeadCommit(dir);
+    headCommits.set(dir, { time: Date.now(), head });
+    return head;
+  }
+
+  // Describe the revision of each rule that lives in a git work tree: a hash
+  // of the served content and the last commit that changed its file. Rules
+  // read as of a ref pass the commit of each file. Rules are looked up in
+  // parallel, and rules outside git are skipped without running git log
+  async function describeRuleVersions(
+    rules: Rule[],
+    commits?: Map<string, string>
+  ): Promise<Map<string, string>> {
+    const versions = await Promise.all(
+      rules.map(async (rule): Promise<[string, string][]> => {
+        const head = await getCachedHead(dirname(rule.filePath));
+        if (!head) {
+          return [];
+        }
+
+        const last = await getLastCommit(
+          rule.filePath,
+          head,
+          commits?.get(rule.filePath)
+        );
+        return [
+          [
+            rule.key,
+            `> Version: ${hashContent(rule.content)} (${
+              last
+                ? `last commit ${last.shortHash} on ${last.date.slice(0, 10)} by ${last.author}: ${last.subject}`
+                : 'not committed'
+            })`,
+          ],
+        ];
+      })
+    );
+
+    return new Map(versions.flat());
+  }
+
+  // Notify subscribed clients that the resources of changed rules were
+  // updated
+  function notifyResourcesUpdated(keys: string[]) {
+    const uris = new Set(keys.map(toResourceUri));
+
+    resourceSubscriptions.forEach((subscriptions, server) => {
+      uris.forEach((uri) => {
+        if (!subscriptions.has(uri)) {
+          return;
+        }
+
+        server.sendResourceUpdated({ uri }).catch((error) => {
+          logger.error(`Error sending resource update for ${uri}`, error);
+        });
+      });
+    });
+  }
+
+  // Tell initialized clients to fetch the tool, resource and prompt lists
+  // again
+  function notifyListsChanged() {
+    logger.debug('Rule set changed, sending list changed notifications');
+
+    connectedServers.forEach((server) => {
+      Promise.all([
+        server.sendToolListChanged(),
+        server.sendResourceListChanged(),
+        server.sendPromptListChanged(),
+      ]).catch((error) => {
+        logger.error('Error sending list changed notifications', error);
+      });
+    });
+  }
+
+  const stopListening = store.onChange((change) => {
+    headCommits.clear();
+    if (change.updated.length > 0) {
+      notifyResourcesUpdated(change.updated);
+    }
+    if (change.listChanged) {
+      notifyListsChanged();
+    }
+  });
+
+  // Also forward logs written while handling a client's request to that
+  // client as MCP logging notifications (it can filter them with
+  // logging/setLevel). Other logs, e.g. of the watcher or the HTTP
+  // transport, concern every session and are only written locally
+  logger.setForwarder((level, message, data) => {
+    const server = requestServer.getStore();
+    if (!server || !connectedServers.has(server)) {
+      return;
+    }
+
+    server
+      .sendLoggingMessage({
+        level: level === 'warn' ? 'warning' : level,
+        logger: config.server.name,
+        data: data === undefined ? message : { message, data },
+      })
+      .catch(() => {
+        // The client may have disconnected; the log line was already written
+      });
+  });
+
+  function createServer(): Server {
+    const server = new Server(config.server, {
+      capabilities: {
+        tools: { listChanged: true },
+        resources: { subscribe: true, listChanged: true },
+        prompts: { listChanged: true },
+        logging: {},
+      },
+    });
+    const subscriptions = new Set<string>();
+    resourceSubscriptions.set(server, subscriptions);
+
+    // Register a request handler that runs with this server as the log
+    // context (see requestServer)
+    const setRequestHandler: Server['setRequestHandler'] = (schema, handler) =>
+      server.setRequestHandler(schema, (request, extra) =>
+        requestServer.run(server, () => handler(request, extra))
+      );
+
+    // Provide tool list
+    setRequestHandler(ListToolsRequestSchema, async () => {
+      const rules = await store.getRules();
+      const availableRuleTypes = getAvailableRuleTypes(rules);
+
+      const tools = [
+        {
+          name: 'get_project_rules',
+          description: 'Get project rules',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              rule_type: {
+                type: 'string',
+                examples: availableRuleTypes,
+                description: describeRuleTypes(rules),
+              },
+              section: {
+                type: 'string',
+                description:
+                  'Optional heading path of a single section to return, e.g. "Format > Scope" (see get_rule_sections)',
+              },
+              include_sources: {
+                type: 'boolean',
+                description:
+                  'Prefix each rule with the rules directory layer(s) it came from',
+              },
+              max_tokens: {
+                type: 'number',
+                description:
+                  'Optional response budget in tokens (estimated). Rules are filled by priority; rules that do not fit are summarized or listed as omitted',
+              },
+              max_chars: {
+                type: 'number',
+                description: 'Optional response budget in characters',
+              },
+              ref: {
+                type: 'string',
+                description:
+                  'Optional git branch, tag or commit to return the rules as of (rules in a git repository only)',
+              },
+              locale: {
+                type: 'string',
+                description: describeLocales(rules, config.locale),
+              },
+            },
+            required: ['rule_type'],
+          },
+        },
+        {
+          name: 'get_rule_sections',
+          description:
+            'List the section headings of project rules (table of contents)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              rule_type: {
+                type: 'string',
+                examples: availableRuleTypes,
+                description:
+                  'Rule or subtree to list sections for (default ALL)',
+              },
+            },
+          },
+        },
+        {
+          name: 'get_rules_for_files',
+          description:
+            'Get only the project rules whose applies_to globs match the given file paths',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              files: {
+                type: 'array',
+                items: { type: 'string' },
+                description:
+                  'Paths of the files being edited, relative to the project root',
+              },
+              include_general: {
+                type: 'boolean',
+                description:
+                  'Also include rules that do not declare applies_to (default false)',
+              },
+            },
+            required: ['files'],
+          },
+        },
+        {
+          name: 'validate_rules',
+          description:
+            'Check rule files for broken links, empty sections, duplicate keys, invalid front matter and unresolved templates',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          },
+        },
+        {
+          name: 'search_project_rules',
+          description:
+            'Search all project rules and return ranked matching sections',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              query: {
+                type: 'string',
+                description: 'Words or phrase to search for',
+              },
+              limit: {
+                type: 'number',
+                description: `Maximum number of matches to return (default ${DEFAULT_SEARCH_LIMIT}, at most ${MAX_SEARCH_LIMIT})`,
+              },
+            },
+            required: ['query'],
+          },
+        },
+        {
+          name: 'get_rule_history',
+          description:
+            'List the recent git commits that changed a rule (rules in a git repository only)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              rule_type: {
+                type: 'string',
+                description: 'Key of the rule, e.g. GENERAL-OVERVIEW',
+              },
+              limit: {
+                type: 'number',
+                description: `Maximum number of commits to list (default ${DEFAULT_HISTORY_LIMIT}, at most ${MAX_HISTORY_LIMIT})`,
+              },
+            },
+            required: ['rule_type'],
+          },
+        },
+        // Semantic search is only offered with an embeddings provider
+        ...(config.embeddings.provider
+          ? [
+              {
+                name: 'find_relevant_rules',
+                description:
+                  'Find the rule sections most similar in meaning to a question or task, even when they use other words',
+                inputSchema: {
+                  type: 'object',
+                  properties: {
+                    query: {
+                      type: 'string',
+                      description:
+                        'Question or task, e.g. "how should I name database migrations?"',
+                    },
+                    limit: {
+                      type: 'number',
+                      description: `Maximum number of sections to return (default ${DEFAULT_SEARCH_LIMIT}, at most ${MAX_SEARCH_LIMIT})`,
+                    },
+                  },
+                  required: ['query'],
+                },
+              },
+            ]
+          : []),
+      ];
+
+      return {
+        tools: tools.map((tool) => ({
+          ...tool,
+          name: toToolName(tool.name as ToolName),
+        })),
+      };
+    });
+
+    // Run a tool call, adding the keys of the rules whose content it returns
+    // to `keys`
+    const callTool = async (
+      requestedName: string,
+      args: Record<string, unknown> | undefined,
+      keys: string[]
+    ) => {
+      const name = fromToolName(requestedName);
+
+      if (name === 'get_project_rules') {
+        if (!args || typeof args.rule_type !== 'string') {
+          throw new Error('rule_type argument is required');
+        }
+
+        const requestedType = args.rule_type;
+        const sectionPath = parseSectionPath(args.section);
+        const layers =
+          args.include_sources === true ? store.getLayers() : undefined;
+        const maxChars = parseBudget(args);
+        const ref =
+          typeof args.ref === 'string' && args.ref ? args.ref : undefined;
+        const locale = parseLocale(args.locale);
+        const { rules, commits } = ref
+          ? await store.getRulesAtRef(ref, locale)
+          : { rules: await store.getRules(locale), commits: undefined };
+
+        // A loosely matched rule type is served as the key it matched
+        const match =
+          requestedType === 'ALL' || requestedType.endsWith(SUBTREE_SUFFIX)
+            ? undefined
+            : matchRuleType(rules, requestedType);
+        if (match?.status === 'ambiguous') {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: describeCandidates(
+                  requestedType,
+                  match.candidates.map((key) => rules[key]!)
+                ),
+              },
+            ],
+          };
+        }
+        const ruleType = match?.status === 'found' ? match.key : requestedType;
+        const versions = await describeRuleVersions(
+          selectRules(rules, ruleType),
+          commits
+        );
+
+        if (sectionPath) {
+          const rule = rules[ruleType];
+          if (!rule) {
+            throw new Error(`Unknown rule type: ${ruleType}`);
+          }
+
+          const section = findSection(
+            buildSectionTree(rule.content),
+            sectionPath
+          );
+          if (!section) {
+            throw new Error(
+              `Unknown section "${sectionPath.join(' > ')}" in rule type: ${ruleType}`
+            );
+          }
+
+          const version = versions.get(rule.key);
+          keys.push(rule.key);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: version ? `${version}\n\n${section.text}` : section.text,
+              },
+            ],
+          };
+        }
+
+        if (maxChars !== undefined) {
+          const { text, included, summarized } = fitToBudget(
+            selectRules(rules, ruleType).map((rule) => ({
+              key: rule.key,
+              full: formatRule(rule, layers, versions.get(rule.key)),
+              summary: summarizeRule(rule),
+              priority: rule.metadata.priority ?? 0,
+            })),
+            maxChars
+          );
+
+          keys.push(...included, ...summarized);
+          return {
+            content: [
+              {
+                type: 'text',
+                text,
+              },
+            ],
+          };
+        }
+
+        if (ruleType === 'ALL' || ruleType.endsWith(SUBTREE_SUFFIX)) {
+          const selected = selectRules(rules, ruleType);
+          keys.push(...selected.map((rule) => rule.key));
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatRules(selected, layers, versions),
+              },
+            ],
+          };
+        } else if (rules[ruleType]) {
+          keys.push(ruleType);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatRule(
+                  rules[ruleType],
+                  layers,
+                  versions.get(ruleType)
+                ),
+              },
+            ],
+          };
+        } else {
+          throw new Error(`Unknown rule type: ${ruleType}`);
+        }
+      }
+
+      if (name === 'get_rule_sections') {
+        const ruleType =
+          args && typeof args.rule_type === 'string' ? args.rule_type : 'ALL';
+        const selected = selectRules(await store.getRules(), ruleType);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: selected
+                .map((rule) =>
+                  [
+                    `## ${rule.key}`,
+                    ...formatTableOfContents(buildSectionTree(rule.content)),
+                  ].join('\n')
+                )
+                .join('\n\n'),
+            },
+          ],
+        };
+      }
+
+      if (name === 'get_rules_for_files') {
+        if (
+          !args ||
+          !Array.isArray(args.files) ||
+          !args.files.every((file) => typeof file === 'string')
+        ) {
+          throw new Error('files argument must be a list of file paths');
+        }
+
+        const matches = selectRulesForFiles(
+          await store.getRules(),
+          args.files,
+          args.include_general === true
+        );
+
+        keys.push(...matches.map(({ rule }) => rule.key));
+        if (matches.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `No rules apply to: ${args.files.join(', ')}`,
+              },
+            ],
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: matches
+                .map(({ rule, files }) => {
+                  const appliesTo =
+                    files.length > 0
+                      ? `> Applies to: ${files.join(', ')}\n\n`
+                      : '';
+                  return `## ${rule.key}\n\n${appliesTo}${rule.content}`;
+                })
+                .join('\n\n---\n\n'),
+            },
+          ],
+        };
+      }
+
+      if (name === 'validate_rules') {
+        const diagnostics = await store.lint();
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text:
+                diagnostics.length > 0
+                  ? diagnostics.map(formatDiagnostic).join('\n')
+                  : 'No problems found',
+            },
+          ],
+        };
+      }
+
+      if (name === 'search_project_rules') {
+        if (
+          !args ||
+          typeof args !== 'object' ||
+          typeof args.query !== 'string'
+        ) {
+          throw new Error('query argument is required');
+        }
+
+        const limit = parseLimit(
+          args.limit,
+          DEFAULT_SEARCH_LIMIT,
+          MAX_SEARCH_LIMIT
+        );
+        const matches = searchRules(
+          await store.getSearchIndex(),
+          args.query,
+          limit
+        );
+
+        keys.push(...matches.map((match) => match.key));
+        if (matches.length === 0) {
+          return {
+            content: [
+              { type: 'text', text: `No rules matched "${args.query}"` },
+            ],
+          };
+        }
+
+        return {
+          content: [{ type: 'text', text: formatMatches(matches) }],
+        };
+      }
+
+      if (name === 'find_relevant_rules') {
+        // Not listed without an embeddings provider
+        const semanticIndex = await store.getSemanticIndex();
+        if (!semanticIndex) {
+          throw new Error(`Unknown tool: ${requestedName}`);
+        }
+        if (!args || typeof args.query !== 'string') {
+          throw new Error('query argument is required');
+        }
+
+        const limit = parseLimit(
+          args.limit,
+          DEFAULT_SEARCH_LIMIT,
+          MAX_SEARCH_LIMIT
+        );
+        const matches = await semanticIndex.search(args.query, limit);
+
+        keys.push(...matches.map((match) => match.key));
+        return {
+          content: [
+            {
+              type: 'text',
+              text:
+                matches.length > 0
+                  ? formatMatches(matches)
+                  : `No rules found for "${args.query}"`,
+            },
+          ],
+        };
+      }
+
+      if (name === 'get_rule_history') {
+        if (!args || typeof args.rule_type !== 'string') {
+          throw new Error('rule_type argument is required');
+        }
+
+        const rule = findRule(await store.getRules(), args.rule_type);
+        if (!(await getCachedHead(dirname(rule.filePath)))) {
+          throw new Error(`Rule ${rule.key} is not in a git repository`);
+        }
+
+        const limit = parseLimit(
+          args.limit,
+          DEFAULT_HISTORY_LIMIT,
+          MAX_HISTORY_LIMIT
+        );
+        const history = await getFileHistory(rule.filePath, limit);
+        const path = relative(
+          rule.layers[rule.layers.length - 1]!,
+          rule.filePath
+        );
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text:
+                history.length > 0
+                  ? [
+                      `History of ${rule.key} (${path}):`,
+                      '',
+                      ...history.map(
+                        (commit) =>
+                          `- ${commit.shortHash} ${commit.date.slice(0, 10)} ${commit.author}: ${commit.subject}`
+                      ),
+                    ].join('\n')
+                  : `${rule.key} (${path}) has not been committed yet`,
+            },
+          ],
+        };
+      }
+
+      throw new Error(`Unknown tool: ${requestedName}`);
+    };
+
+    // Handle tool calls, recording each one in the audit log
+    setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      const client = server.getClientVersion();
+      const entry = {
+        time: new Date().toISOString(),
+        ...(client
+          ? { client: { name: client.name, version: client.version } }
+          : {}),
+        tool: name,
+        arguments: args ?? {},
+      };
+      const keys: string[] = [];
+
+      try {
+        const result = await callTool(name, args, keys);
+        auditLog?.record({
+          ...entry,
+          keys: [...new Set(keys)],
+          size: result.content.reduce(
+            (size, item) => size + item.text.length,
+            0
+          ),
+        });
+        return result;
+      } catch (error) {
+        auditLog?.record({
+          ...entry,
+          keys: [],
+          size: 0,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+    });
+
+    // Provide resource list (one resource per rule)
+    setRequestHandler(ListResourcesRequestSchema, async () => {
+      const rules = await store.getRules();
+
+      return {
+        resources: Object.values(rules).map((rule) => ({
+          uri: toResourceUri(rule.key),
+          name: rule.key,
+          ...(rule.metadata.title ? { title: rule.metadata.title } : {}),
+          description: describeRule(rule),
+          mimeType: RULES_MIME_TYPE,
+        })),
+      };
+    });
+
+    // Handle resource reads
+    setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const key = fromResourceUri(uri);
+      const rules = await store.getRules();
+
+      // Own keys only, so rules://constructor is not a rule
+      const rule =
+        key !== undefined && Object.hasOwn(rules, key) ? rules[key] : undefined;
+
+      if (!rule) {
+        throw new Error(`Unknown resource: ${uri}`);
+      }
+
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: RULES_MIME_TYPE,
+            text: rule.content,
+          },
+        ],
+      };
+    });
+
+    // Provide prompt list (rules and configured rule bundles)
+    setRequestHandler(ListPromptsRequestSchema, async () => {
+      const prompts = getRulePrompts(await store.getRules());
+
+      return {
+        prompts: prompts.map((prompt) => ({
+          name: prompt.name,
+          title: prompt.title,
+          description: prompt.description,
+          arguments: findPromptArguments(prompt.text).map((name) => ({
+            name,
+            required: true,
+          })),
+        })),
+      };
+    });
+
+    // Return a prompt as a user message, filling in its arguments
+    setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args = {} } = request.params;
+      const prompt = getRulePrompts(await store.getRules()).find(
+        (candidate) => candidate.name === name
+      );
+
+      if (!prompt) {
+        throw new Error(`Unknown prompt: ${name}`);
+      }
+
+      return {
+        description: prompt.description,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: fillPromptArguments(prompt.text, args),
+            },
+          },
+        ],
+      };
+    });
+
+    // Handle resource subscriptions (updates are sent by the file watcher).
+    // URIs are kept as listed, however the client encoded them
+    const toSubscriptionUri = (uri: string) => {
+      const key = fromResourceUri(uri);
+      return key === undefined ? uri : toResourceUri(key);
+    };
+
+    setRequestHandler(SubscribeRequestSchema, async (request) => {
+      subscriptions.add(toSubscriptionUri(request.params.uri));
+      return {};
+    });
+
+    setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.delete(toSubscriptionUri(request.params.uri));
+      return {};
+    });
+
+    // Track initialized servers for notifications and forget them once closed
+    server.oninitialized = () => {
+      connectedServers.add(server);
+    };
+    server.onclose = () => {
+      connectedServers.delete(server);
+      resourceSubscriptions.delete(server);
+    };
+
+    return server;
+  }
+
+  return {
+    config,
+    store,
+    createServer,
+    connect: async (transport) => {
+      const server = createServer();
+      await server.connect(transport);
+      return server;
+    },
+    close: async () => {
+      stopListening();
+      store.close();
+      logger.setForwarder(undefined);
+      await Promise.all(
+        [...resourceSubscriptions.keys()].map((server) => server.close())
+      );
+    },
+  };
+}
@@ -0,0 +1,795 @@
+// Rule store: loads, merges and caches the rules of every layer and keeps
+// them current while watching for file changes
+import { existsSync, watch } from 'fs';
+import { access, readFile } from 'fs/promises';
+import { basename, dirname, join, resolve } from 'path';
+import {
+  clearRulesDir,
+  isRuleFile,
+  refreshRuleFile,
+  refreshRulesDir,
+  type RefreshResult,
+  type RuleFile,
+  type RuleFileCache,
+  type RuleFileFilter,
+} from './cache.js';
+import {
+  resolveConfig,
+  type PartialConfig,
+  type RulesConfig,
+} from './config.js';
+import { getAgentRuleWatchDirs, refreshAgentRules } from './discover.js';
+import {
+  createSemanticIndex,
+  getDefaultIndexFile,
+  type SemanticIndex,
+} from './embeddings.js';
+import type { RuleMetadata } from './frontmatter.js';
+import { getHeadCommit, readFileAtCommit, resolveRef } from './git.js';
+import { toRuleKey } from './keys.js';
+import { lintRules, type Diagnostic } from './lint.js';
+import { createLoaders, findLoader } from './loaders.js';
+import { lintTranslations, selectTranslation, splitLocale } from './locales.js';
+import { createLogger, type Logger } from './logger.js';
+import { createSearchIndex, type SearchIndex } from './search.js';
+import {
+  findDependents,
+  parseVariables,
+  renderTemplates,
+  variablesFromEnv,
+  type TemplateError,
+} from './template.js';
+
+// Wait this long after the last file event before updating the cache, so
+// editors that save in several steps trigger a single update
+const WATCH_DEBOUNCE_MS = 100;
+
+// A loaded rule file: its metadata plus the body normalized to markdown
+export interface Rule {
+  key: string;
+  filePath: string;
+  // Directory names between the rules root and the file
+  directories: string[];
+  // Rules directories that contributed to this rule, in layer order
+  layers: string[];
+  metadata: RuleMetadata;
+  content: string;
+  // Locale of the served file (undefined for a file without a locale) and
+  // the locales the rule is translated into
+  locale: string | undefined;
+  translations: string[];
+}
+
+// Configuration options (see RulesConfig) plus the logger to report to
+export type RulesOptions = PartialConfig & {
+  // Default: a logger writing to stderr as configured by the logging option
+  logger?: Logger;
+};
+
+// Rules changed on disk while watching
+export interface RuleChange {
+  // Keys of the changed rules and of the rules that include them
+  updated: string[];
+  // Whether rules were added or removed
+  listChanged: boolean;
+}
+
+export interface RuleStore {
+  readonly config: RulesConfig;
+  readonly logger: Logger;
+  // Discovered repositories and rules directories, in layer order
+  getLayers(): string[];
+  // Merged rules by key, revalidated once the cache TTL has passed (or kept
+  // current by file events while watching). Rules are served in the closest
+  // translation to the locale (default: the configured locale)
+  getRules(locale?: string): Promise<Record<string, Rule>>;
+  // Read changed rule files now and rebuild the merged rules
+  reload(): Promise<Record<string, Rule>>;
+  // Rules as of a git ref, with the commit each rule file was read from
+  getRulesAtRef(
+    ref: string,
+    locale?: string
+  ): Promise<{ rules: Record<string, Rule>; commits: Map<string, string> }>;
+  getSearchIndex(): Promise<SearchIndex>;
+  // Semantic index of the current rules, brought up to date with the rules
+  // cache (undefined unless an embeddings provider is configured)
+  getSemanticIndex(): Promise<SemanticIndex | undefined>;
+  // Check rule files and templates for problems
+  lint(): Promise<Diagnostic[]>;
+  // Watch every layer and report changes to the onChange listeners
+  watch(): void;
+  // Stop watching
+  close(): void;
+  // Forget every cached rule file and restart the watchers, if any
+  reset(): void;
+  // Listen for changes while watching; returns a function that stops
+  // listening
+  onChange(listener: (change: RuleChange) => void): () => void;
+}
+
+// Describe a rule using its front matter, falling back to its first heading
+export function describeRule(rule: Rule): string {
+  if (rule.metadata.description) {
+    return rule.metadata.description;
+  }
+  if (rule.metadata.title) {
+    return rule.metadata.title;
+  }
+
+  const heading = rule.content.match(/^#{1,6}\s+(.+)$/m);
+  return heading?.[1]?.trim() || `Project rule ${rule.key}`;
+}
+
+// Merge a rule from a later layer into the rule with the same key
+function mergeRule(base: Rule | undefined, layer: Rule): Rule {
+  if (!base) {
+    return layer;
+  }
+
+  const layers = [...base.layers, ...layer.layers];
+  if (!layer.metadata.merge || layer.metadata.merge === 'replace') {
+    return { ...layer, layers };
+  }
+
+  const content =
+    layer.metadata.merge === 'append'
+      ? `${base.content.trimEnd()}\n\n${layer.content}`
+      : `${layer.content.trimEnd()}\n\n${base.content}`;
+
+  return {
+    ...layer,
+    layers,
+    metadata: { ...base.metadata, ...layer.metadata },
+    content,
+  };
+}
+
+// Report unresolved template directives as lint diagnostics
+function lintTemplates(
+  rules: Record<string, Rule>,
+  templateErrors: TemplateError[]
+): Promise<Diagnostic[]> {
+  return Promise.all(
+    templateErrors.map(async (error) => {
+      const filePath = rules[error.key]?.filePath ?? error.key;
+      let line = 1;
+      try {
+        const index = (await readFile(filePath, 'utf-8'))
+          .split(/\r?\n/)
+          .findIndex((text) => text.includes(error.directive));
+        line = index + 1 || 1;
+      } catch {
+        // Keep line 1 when the file cannot be read
+      }
+
+      return {
+        file: filePath,
+        line,
+        severity: error.severity,
+        message: error.message,
+      };
+    })
+  );
+}
+
+// Create a rule store. Nothing is read until rules are requested; invalid
+// options and loaders throw an error with one line per problem
+export async function createRuleStore(
+  options: RulesOptions = {}
+): Promise<RuleStore> {
+  const { logger: customLogger, ...configOptions } = options;
+  const config = resolveConfig(configOptions);
+  const logger = customLogger ?? createLogger(config.logging);
+
+  // Register the configured loaders ahead of the built-in ones
+  const { loaders: ruleLoaders, errors: loaderErrors } = await createLoaders(
+    config.loaders
+  );
+  if (loaderErrors.length > 0) {
+    throw new Error(loaderErrors.join('\n'));
+  }
+
+  // Load the embeddings provider and the vectors saved by earlier runs
+  const semanticIndex = config.embeddings.provider
+    ? await createSemanticIndex({
+        provider: config.embeddings.provider,
+        indexFile:
+          config.embeddings.indexFile ??
+          getDefaultIndexFile(
+            config.embeddings.provider,
+            getLayers().map((layer) => resolve(layer))
+          ),
+        logger,
+      })
+    : undefined;
+
+  // Locales of translated rule files; the default locale is one of them
+  const translationLocales = config.locale
+    ? [...config.locales, config.locale]
+    : config.locales;
+
+  const ruleFiles: RuleFileCache = new Map(); // Parsed rule files of every layer
+  let rulesCache: Record<string, Rule> | undefined; // Merged rules built from ruleFiles
+  const localizedRules = new Map<string, Promise<Record<string, Rule>>>(); // Other locales, built on demand
+  let lastScanTime = 0;
+  let pendingRefresh: Promise<Record<string, Rule>> | undefined;
+  let searchIndexCache: SearchIndex | undefined; // Rebuilt lazily after each rescan
+  let semanticUpdate:
+    | { rules: Record<string, Rule>; done: Promise<void> }
+    | undefined; // Last semantic index update
+  let watchers: ReturnType<typeof watch>[] = [];
+  const changedPaths = new Map<string, Set<string | undefined>>(); // Queued watcher events by layer
+  let fileChangeTimer: ReturnType<typeof setTimeout> | undefined;
+  let ruleDependents = new Map<string, Set<string>>(); // Rules that include each rule
+  let templateErrors: TemplateError[] = []; // Unresolved template directives from the last scan
+  const listeners = new Set<(change: RuleChange) => void>();
+
+  // Resolve the configured rules directory layers
+  function getRulesDirs(): string[] {
+    const currentDir = new URL('.', import.meta.url).pathname;
+    return config.rulesDirs.length > 0
+      ? config.rulesDirs
+      : [join(currentDir, '..', 'rules')];
+  }
+
+  // Discovered repositories come before the rules directories, so curated
+  // rules win when keys clash
+  function getLayers(): string[] {
+    return [...config.discover, ...getRulesDirs()];
+  }
+
+  // Load template variables from the config file, the variables file and the
+  // environment (later sources win)
+  async function getTemplateVariables(): Promise<Record<string, string>> {
+    let variables: Record<string, string> = {};
+
+    if (config.varsFile) {
+      try {
+        variables = parseVariables(await readFile(config.varsFile, 'utf-8'));
+      } catch (error) {
+        logger.error(`Error reading variables file ${config.varsFile}`, error);
+      }
+    }
+
+    return { ...config.variables, ...variables, ...variablesFromEnv() };
+  }
+
+  // Resolve includes and variables in the merged rules. The served build
+  // also records which rules include which, so that a change to an included
+  // file refreshes its includers, and reports unresolved directives
+  async function applyTemplates(rules: Record<string, Rule>, served: boolean) {
+    const sources = Object.fromEntries(
+      Object.values(rules).map((rule) => [rule.key, rule.content])
+    );
+    const result = renderTemplates(
+      sources,
+      await getTemplateVariables(),
+      config.keyNaming,
+      ruleLoaders
+    );
+
+    Object.values(rules).forEach((rule) => {
+      rule.content = result.contents[rule.key] ?? rule.content;
+    });
+    if (!served) {
+      return;
+    }
+
+    result.errors.forEach((error) => {
+      logger.warn(
+        `Template ${error.severity} in ${error.key}: ${error.message}`
+      );
+    });
+
+    ruleDependents = findDependents(result.dependencies);
+    templateErrors = result.errors;
+  }
+
+  // Rule key of a cached rule file; translations share the key of their
+  // source file
+  function toFileRuleKey(ruleFile: RuleFile): string {
+    return toRuleKey(
+      ruleFile.directories,
+      splitLocale(ruleFile.file, translationLocales).file,
+      config.keyNaming
+    );
+  }
+
+  // Log the loading problems (e.g. invalid front matter) of freshly read files
+  function reportRefresh(result: RefreshResult) {
+    result.read.forEach((ruleFile) => {
+      ruleFile.errors.forEach((message) => {
+        logger.warn(`${ruleFile.filePath}: ${message}`);
+      });
+    });
+    if (result.read.length > 0 || result.removed.length > 0) {
+      logger.debug(
+        `${result.read.length} rule files read, ${result.removed.length} removed`
+      );
+    }
+  }
+
+  // Files selected by the include/exclude globs in a format a loader supports
+  function getRuleFileFilter(): RuleFileFilter {
+    return {
+      include: config.include,
+      exclude: config.exclude,
+      loaders: ruleLoaders,
+    };
+  }
+
+  // Bring the cached files of one layer (a rules directory or a discovered
+  // repository) up to date
+  async function refreshLayer(rulesDir: string): Promise<RefreshResult> {
+    const discovered = config.discover.includes(rulesDir);
+    try {
+      await access(rulesDir);
+    } catch {
+      logger.error(
+        `${discovered ? 'Repository' : 'Rules directory'} not found: ${rulesDir}`
+      );
+      return clearRulesDir(ruleFiles, rulesDir);
+    }
+
+    try {
+      if (discovered) {
+        return await refreshAgentRules(ruleFiles, rulesDir, ruleLoaders);
+      }
+      return await refreshRulesDir(
+        ruleFiles,
+        rulesDir,
+        getRuleFileFilter(),
+        (dir, error) => {
+          logger.error(`Error reading rules directory ${dir}`, error);
+        }
+      );
+    } catch (error) {
+      logger.error('Error reading rules files', error);
+      return { read: [], removed: [] };
+    }
+  }
+
+  // Build the merged rules of every layer from the cached rule files. In
+  // each layer, the translation of a rule closest to the locale is used
+  async function buildRules(
+    locale = config.locale,
+    served = true
+  ): Promise<Record<string, Rule>> {
+    const rules: Record<string, Rule> = {};
+    const translations = new Map<string, Set<string>>();
+    const files = [...ruleFiles.values()].sort((a, b) =>
+      a.filePath < b.filePath ? -1 : a.filePath > b.filePath ? 1 : 0
+    );
+
+    getLayers().forEach((rulesDir) => {
+      const variants = new Map<
+        string,
+        { ruleFile: RuleFile; locale: string | undefined }[]
+      >();
+      files
+        .filter((ruleFile) => ruleFile.rulesDir === rulesDir)
+        .forEach((ruleFile) => {
+          const key = toFileRuleKey(ruleFile);
+          const fileLocale = splitLocale(
+            ruleFile.file,
+            translationLocales
+          ).locale;
+          variants.set(key, [
+            ...(variants.get(key) ?? []),
+            { ruleFile, locale: fileLocale },
+          ]);
+          if (fileLocale) {
+            translations.set(
+              key,
+              (translations.get(key) ?? new Set()).add(fileLocale)
+            );
+          }
+        });
+
+      variants.forEach((group, key) => {
+        const { ruleFile, locale: ruleLocale } = selectTranslation(
+          group,
+          locale
+        );
+        // A translation only overrides the metadata fields it sets
+        const source = group.find((variant) => !variant.locale)?.ruleFile;
+        rules[key] = mergeRule(rules[key], {
+          key,
+          filePath: ruleFile.filePath,
+          directories: ruleFile.directories,
+          layers: [rulesDir],
+          metadata: { ...source?.metadata, ...ruleFile.metadata },
+          content: ruleFile.body,
+          locale: ruleLocale,
+          translations: [],
+        });
+      });
+    });
+
+    Object.values(rules).forEach((rule) => {
+      rule.translations = [...(translations.get(rule.key) ?? [])].sort();
+    });
+    await applyTemplates(rules, served);
+
+    return rules;
+  }
+
+  // Read rule files from every layer. Only files whose modification time or
+  // size changed are read again
+  async function readRules(): Promise<Record<string, Rule>> {
+    for (const rulesDir of getLayers()) {
+      reportRefresh(await refreshLayer(rulesDir));
+    }
+
+    return buildRules();
+  }
+
+  // Replace the cached rules once a refresh finishes; concurrent callers
+  // share the refresh in progress
+  function updateRulesCache(
+    refresh: () => Promise<Record<string, Rule>>
+  ): Promise<Record<string, Rule>> {
+    const previous = pendingRefresh ?? Promise.resolve(undefined);
+
+    const next = previous
+      .catch(() => undefined)
+      .then(refresh)
+      .then((rules) => {
+        rulesCache = rules;
+        lastScanTime = Date.now();
+        searchIndexCache = undefined;
+        localizedRules.clear();
+        return rules;
+      })
+      .finally(() => {
+        if (pendingRefresh === next) {
+          pendingRefresh = undefined;
+        }
+      });
+
+    pendingRefresh = next;
+    return next;
+  }
+
+  // Return cached rules (performance optimization). While watching, the
+  // cache is kept current by file events; otherwise it is revalidated once
+  // the cache TTL has passed
+  async function getServedRules(): Promise<Record<string, Rule>> {
+    if (pendingRefresh) {
+      return pendingRefresh;
+    }
+
+    const watching = watchers.length > 0;
+    if (
+      rulesCache &&
+      (watching || Date.now() - lastScanTime <= config.cacheTtl)
+    ) {
+      return rulesCache;
+    }
+
+    logger.debug('Revalidating rules');
+    const firstLoad = !rulesCache;
+    const rules = await updateRulesCache(readRules);
+    if (firstLoad) {
+      logger.info(`${Object.keys(rules).length} rules loaded`);
+    }
+    return rules;
+  }
+
+  // Return the rules in a locale other than the configured one, built from
+  // the cached rule files once per rescan
+  async function getRules(locale?: string): Promise<Record<string, Rule>> {
+    const rules = await getServedRules();
+    if (!locale || locale.toLowerCase() === config.locale?.toLowerCase()) {
+      return rules;
+    }
+
+    const key = locale.toLowerCase();
+    if (!localizedRules.has(key)) {
+      localizedRules.set(key, buildRules(locale, false));
+    }
+    return localizedRules.get(key)!;
+  }
+
+  // Read the current rules from their files as of a git ref (the effective
+  // layer only) and render their templates again. Rules outside git or whose
+  // file did not exist then are left out
+  async function getRulesAtRef(
+    ref: string,
+    locale?: string
+  ): Promise<{ rules: Record<string, Rule>; commits: Map<string, string> }> {
+    const refRules: Record<string, Rule> = {};
+    const commits = new Map<string, string>();
+    const resolved = new Map<string, Promise<string | undefined>>();
+    const resolveInDir = async (dir: string) =>
+      (await getHeadCommit(dir)) ? resolveRef(dir, ref) : undefined;
+
+    for (const rule of Object.values(await getRules(locale))) {
+      const dir = dirname(rule.filePath);
+      if (!resolved.has(dir)) {
+        resolved.set(dir, resolveInDir(dir));
+      }
+      const commit = await resolved.get(dir);
+      const source = commit && (await readFileAtCommit(rule.filePath, commit));
+      const loader = findLoader(ruleLoaders, basename(rule.filePath));
+      if (!commit || source === undefined || !loader) {
+        continue;
+      }
+
+      const { metadata, body } = loader.load(source, rule.filePath);
+      refRules[rule.key] = {
+        ...rule,
+        layers: rule.layers.slice(-1),
+        metadata,
+        content: body,
+      };
+      commits.set(rule.filePath, commit);
+    }
+
+    const rendered = renderTemplates(
+      Object.fromEntries(
+        Object.values(refRules).map((rule) => [rule.key, rule.content])
+      ),
+      await getTemplateVariables(),
+      config.keyNaming,
+      ruleLoaders
+    );
+    Object.values(refRules).forEach((rule) => {
+      rule.content = rendered.contents[rule.key] ?? rule.content;
+    });
+
+    return { rules: refRules, commits };
+  }
+
+  // Return the search index for the current rules cache
+  async function getSearchIndex(): Promise<SearchIndex> {
+    const rules = await getRules();
+
+    if (!searchIndexCache) {
+      searchIndexCache = createSearchIndex(Object.values(rules));
+    }
+
+    return searchIndexCache;
+  }
+
+  // Update the semantic index once per rules cache; only sections that are
+  // new or edited since the last update are embedded
+  async function getSemanticIndex(): Promise<SemanticIndex | undefined> {
+    if (!semanticIndex) {
+      return undefined;
+    }
+
+    const rules = await getRules();
+    if (semanticUpdate?.rules !== rules) {
+      semanticUpdate = {
+        rules,
+        done: semanticIndex.update(Object.values(rules)),
+      };
+    }
+    await semanticUpdate.done;
+
+    return semanticIndex;
+  }
+
+  // Lint rule files, the templates of the merged rules and translations
+  async function lint(): Promise<Diagnostic[]> {
+    const rules = await updateRulesCache(readRules);
+    const rulesDirs = getRulesDirs();
+    return [
+      ...(await lintRules(rulesDirs, {
+        keyNaming: config.keyNaming,
+        locales: translationLocales,
+        include: config.include,
+        exclude: config.exclude,
+        loaders: ruleLoaders,
+      })),
+      ...(await lintTemplates(rules, templateErrors)),
+      ...(await lintTranslations(
+        [...ruleFiles.values()].filter((ruleFile) =>
+          rulesDirs.includes(ruleFile.rulesDir)
+        ),
+        translationLocales
+      )),
+    ];
+  }
+
+  // File change detection and rules reload for every layer
+  function watchLayers() {
+    watchers = [
+      ...config.discover.flatMap(watchAgentRules),
+      ...getRulesDirs().flatMap((rulesDir) => {
+        const watcher = watchRulesDir(rulesDir);
+        return watcher ? [watcher] : [];
+      }),
+    ];
+  }
+
+  // Watch a single rules directory layer
+  function watchRulesDir(rulesDir: string) {
+    if (!existsSync(rulesDir)) {
+      logger.error(`Rules directory not found for watching: ${rulesDir}`);
+      return undefined;
+    }
+
+    logger.info(`Starting file change detection: ${rulesDir}`);
+
+    return watch(rulesDir, { recursive: true }, (eventType, filename) => {
+      logger.debug(`File change detected: ${filename} (${eventType})`);
+      queueFileChange(rulesDir, filename ?? undefined);
+    });
+  }
+
+  // Watch the known agent rule locations of a discovered repository rather
+  // than the whole tree; any change rediscovers its rule files
+  function watchAgentRules(repoDir: string) {
+    if (!existsSync(repoDir)) {
+      logger.error(`Repository not found for watching: ${repoDir}`);
+      return [];
+    }
+
+    logger.info(`Starting agent rule change detection: ${repoDir}`);
+
+    return getAgentRuleWatchDirs()
+      .filter(({ dir }) => existsSync(join(repoDir, dir)))
+      .map(({ dir, recursive }) =>
+        watch(join(repoDir, dir), { recursive }, (eventType, filename) => {
+          logger.debug(
+            `Agent rule change detected: ${filename} (${eventType})`
+          );
+          queueFileChange(repoDir, undefined);
+        })
+      );
+  }
+
+  // Close all active file watchers
+  function close() {
+    watchers.forEach((watcher) => watcher.close());
+    watchers = [];
+    clearTimeout(fileChangeTimer);
+  }
+
+  // Record a changed path (relative to its rules directory, or undefined when
+  // unknown) and apply the changes once the burst of events is over
+  function queueFileChange(rulesDir: string, filename: string | undefined) {
+    const paths = changedPaths.get(rulesDir) ?? new Set<string | undefined>();
+    paths.add(filename);
+    changedPaths.set(rulesDir, paths);
+
+    clearTimeout(fileChangeTimer);
+    fileChangeTimer = setTimeout(() => {
+      applyFileChanges().catch((error) => {
+        logger.error('Error applying rule file changes', error);
+      });
+    }, WATCH_DEBOUNCE_MS);
+  }
+
+  // Update only the cache entries affected by queued file events, then
+  // report the changed rules and the rules that include them
+  async function applyFileChanges() {
+    const changes = [...changedPaths];
+    changedPaths.clear();
+
+    // Until rules are first requested there is nothing to update: that
+    // request reads every layer
+    if (!rulesCache) {
+      return;
+    }
+
+    const keys = new Set<string>();
+    let previousKeys: string[] | undefined;
+    const rules = await updateRulesCache(async () => {
+      previousKeys = rulesCache && Object.keys(rulesCache);
+
+      for (const [rulesDir, paths] of changes) {
+        // Directory events (renames, deletions) rescan the whole layer, which
+        // still only reads files that changed
+        const rescan = [...paths].some(
+          (path) =>
+            path === undefined || !findLoader(ruleLoaders, basename(path))
+        );
+        const result: RefreshResult = { read: [], removed: [] };
+
+        if (rescan) {
+          Object.assign(result, await refreshLayer(rulesDir));
+        } else {
+          for (const path of paths) {
+            if (isRuleFile(path!, getRuleFileFilter())) {
+              await refreshRuleFile(
+                ruleFiles,
+                rulesDir,
+                path!,
+                result,
+                ruleLoaders
+              );
+            }
+          }
+        }
+
+        reportRefresh(result);
+        [...result.read, ...result.removed].forEach((ruleFile) =>
+          keys.add(toFileRuleKey(ruleFile))
+        );
+      }
+
+      return buildRules();
+    });
+
+    if (keys.size > 0) {
+      logger.info(`Rules updated: ${[...keys].join(', ')}`);
+    }
+
+    // Rule types and resources are listed per rule, so the lists only change
+    // when rules are added or removed (not when their content is edited)
+    const currentKeys = Object.keys(rules);
+    const listChanged =
+      previousKeys !== undefined &&
+      (previousKeys.length !== currentKeys.length ||
+        previousKeys.some((key) => !(key in rules)));
+
+    const updated = new Set<string>();
+    keys.forEach((key) => {
+      updated.add(key);
+      ruleDependents.get(key)?.forEach((dependent) => updated.add(dependent));
+    });
+
+    if (updated.size > 0 || listChanged) {
+      listeners.forEach((listener) =>
+        listener({ updated: [...updated], listChanged })
+      );
+    }
+
+    // Embed the edited sections now rather than on the next search
+    if (semanticIndex && keys.size > 0) {
+      await getSemanticIndex();
+    }
+  }
+
+  return {
+    config,
+    logger,
+    getLayers,
+    getRules,
+    reload: () => updateRulesCache(readRules),
+    getRulesAtRef,
+    getSearchIndex,
+    getSemanticIndex,
+    lint,
+    watch: () => {
+      if (watchers.length === 0) {
+        watchLayers();
+      }
+    },
+    close,
+    reset: () => {
+      const watching = watchers.length > 0;
+      close();
+      ruleFiles.clear();
+      rulesCache = undefined;
+      localizedRules.clear();
+      if (watching) {
+        watchLayers();
+      }
+    },
+    onChange: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+// Load the merged rules of one rules directory (or several layers) once
+export async function loadRules(
+  rulesDirs: string | string[],
+  options: Omit<RulesOptions, 'rulesDirs'> = {}
+): Promise<Record<string, Rule>> {
+  const layers = typeof rulesDirs === 'string' ? [rulesDirs] : rulesDirs;
+  const missing = layers.filter((rulesDir) => !existsSync(rulesDir));
+  if (missing.length > 0) {
+    throw new Error(`Rules directory not found: ${missing.join(', ')}`);
+  }
+
+  const store = await createRuleStore({ ...options, rulesDirs: layers });
+  return store.reload();
+}
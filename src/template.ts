@@ -0,0 +1,202 @@
+// Rule templating: {{ include "general/README" }} and {{ variable }} directives
+import { parse } from 'yaml';
+import { toRuleKey, type KeyNaming } from './keys.js';
+import { BUILTIN_LOADERS, findLoader, type RuleLoader } from './loaders.js';
+import { PROMPT_ARGUMENT_PREFIX } from './prompts.js';
+
+export interface TemplateError {
+  // Rule whose content contains the directive
+  key: string;
+  // The directive as written, e.g. {{ include "general/README" }}
+  directive: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface TemplateResult {
+  // Rendered content by rule key
+  contents: Record<string, string>;
+  // Keys of the rules each rule includes, directly or through other includes
+  dependencies: Record<string, string[]>;
+  errors: TemplateError[];
+}
+
+const DIRECTIVE_PATTERN =
+  /\{\{\s*(?:include\s+(["'])(.+?)\1|([A-Za-z_][\w.-]*))\s*\}\}/g;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const VARIABLE_ENV_PREFIX = 'MCP_VAR_';
+
+// Convert an include target like "general/README" or "backend/api.md" to a
+// rule key. Targets without the extension of a supported format are
+// markdown files named without ".md"
+export function toIncludeKey(
+  target: string,
+  naming: KeyNaming = 'default',
+  loaders: RuleLoader[] = BUILTIN_LOADERS
+): string {
+  const parts = target
+    .replace(/\\/g, '/')
+    .replace(/^(\.?\/)+/, '')
+    .split('/')
+    .filter(Boolean);
+  const file = parts.pop() ?? '';
+
+  return toRuleKey(
+    parts,
+    findLoader(loaders, file) ? file : `${file}.md`,
+    naming
+  );
+}
+
+// Read template variables from MCP_VAR_* environment variables
+// (MCP_VAR_NODE_VERSION becomes {{ node_version }})
+export function variablesFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): Record<string, string> {
+  const variables: Record<string, string> = {};
+
+  Object.entries(env).forEach(([name, value]) => {
+    if (name.startsWith(VARIABLE_ENV_PREFIX) && value !== undefined) {
+      variables[name.slice(VARIABLE_ENV_PREFIX.length).toLowerCase()] = value;
+    }
+  });
+
+  return variables;
+}
+
+// Parse a JSON or YAML mapping of variable names to scalar values
+export function parseVariables(source: string): Record<string, string> {
+  const parsed: unknown = parse(source);
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Variables must be a mapping of names to values');
+  }
+
+  const variables: Record<string, string> = {};
+  Object.entries(parsed).forEach(([name, value]) => {
+    if (!['string', 'number', 'boolean'].includes(typeof value)) {
+      throw new Error(`Variable "${name}" must be a string, number or boolean`);
+    }
+    variables[name] = String(value);
+  });
+
+  return variables;
+}
+
+// Apply a function to every line outside fenced code blocks
+function mapOutsideFences(
+  content: string,
+  map: (line: string) => string
+): string {
+  let fence: string | undefined;
+
+  return content
+    .split('\n')
+    .map((line) => {
+      const fenceMatch = line.match(FENCE_PATTERN);
+      if (fenceMatch) {
+        if (!fence) {
+          fence = fenceMatch[1];
+        } else if (fence === fenceMatch[1]) {
+          fence = undefined;
+        }
+        return line;
+      }
+
+      return fence ? line : map(line);
+    })
+    .join('\n');
+}
+
+// Resolve includes and variables in every rule. Directives inside code fences
+// are left alone, as are directives that cannot be resolved (which are reported)
+export function renderTemplates(
+  sources: Record<string, string>,
+  variables: Record<string, string>,
+  naming: KeyNaming = 'default',
+  loaders: RuleLoader[] = BUILTIN_LOADERS
+): TemplateResult {
+  const result: TemplateResult = { contents: {}, dependencies: {}, errors: [] };
+  const stack: string[] = [];
+
+  const render = (key: string): string => {
+    const cached = result.contents[key];
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    stack.push(key);
+    const dependencies = new Set<string>();
+
+    const content = mapOutsideFences(sources[key] ?? '', (line) =>
+      line.replace(DIRECTIVE_PATTERN, (directive, _quote, target, name) => {
+        const report = (severity: TemplateError['severity'], message: string) =>
+          result.errors.push({ key, directive, severity, message });
+
+        if (name !== undefined) {
+          // Prompt argument placeholders are filled in by prompts/get
+          if (name.startsWith(PROMPT_ARGUMENT_PREFIX)) {
+            return directive;
+          }
+
+          const value = variables[name];
+          if (value === undefined) {
+            report('warning', `Unknown template variable: ${name}`);
+            return directive;
+          }
+          return value;
+        }
+
+        const includeKey = toIncludeKey(target, naming, loaders);
+        if (sources[includeKey] === undefined) {
+          report('error', `Included rule not found: ${target}`);
+          return directive;
+        }
+
+        const cycleStart = stack.indexOf(includeKey);
+        if (cycleStart !== -1) {
+          report(
+            'error',
+            `Include cycle: ${[...stack.slice(cycleStart), includeKey].join(' -> ')}`
+          );
+          return directive;
+        }
+
+        const included = render(includeKey);
+        dependencies.add(includeKey);
+        result.dependencies[includeKey]?.forEach((dependency) =>
+          dependencies.add(dependency)
+        );
+        return included.trimEnd();
+      })
+    );
+
+    stack.pop();
+    result.contents[key] = content;
+    result.dependencies[key] = [...dependencies];
+    return content;
+  };
+
+  Object.keys(sources).forEach(render);
+
+  return result;
+}
+
+// Invert include dependencies: for each rule, the rules that include it
+export function findDependents(
+  dependencies: Record<string, string[]>
+): Map<string, Set<string>> {
+  const dependents = new Map<string, Set<string>>();
+
+  Object.entries(dependencies).forEach(([key, included]) => {
+    included.forEach((dependency) => {
+      const keys = dependents.get(dependency) ?? new Set<string>();
+      keys.add(key);
+      dependents.set(dependency, keys);
+    });
+  });
+
+  return dependents;
+}
@@ -1,25 +1,28 @@
 import { defineConfig } from 'vite';
+import { builtinModules } from 'module';
 import { resolve } from 'path';
 import dts from 'vite-plugin-dts';
 
 export default defineConfig({
   build: {
     lib: {
-      entry: resolve(__dirname, 'src/index.ts'),
+      // The library entry point and the command line interface
+      entry: {
+        index: resolve(__dirname, 'src/index.ts'),
+        cli: resolve(__dirname, 'src/cli.ts'),
+      },
       name: 'MCPServer',
-      fileName: 'index',
+      fileName: (_format, entryName) => `${entryName}.js`,
       formats: ['es'],
     },
     rollupOptions: {
+      // Node built-ins and dependencies (including SDK subpaths such as
+      // @modelcontextprotocol/sdk/server/index.js) are not bundled
       external: [
-        '@modelcontextprotocol/sdk',
-        'fs',
-        'path',
-        'node:fs',
-        'node:path',
-        'node:process',
-        'process',
-        'readline',
+        /^@modelcontextprotocol\/sdk(\/|$)/,
+        /^node:/,
+        ...builtinModules,
+        'yaml',
       ],
       output: {
         globals: {